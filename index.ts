@@ -1,4 +1,44 @@
 #!/usr/bin/env bun
 import { run } from "./src/app";
+import { runCheck } from "./src/check";
+import { runExport } from "./src/export";
+import { runJson, runStatus } from "./src/headless";
+import { getPluginErrors, loadPlugins } from "./src/plugins";
+import { runServe } from "./src/server";
+import { runWebhooks } from "./src/webhooks";
+
+const args = Bun.argv.slice(2);
+
+// Plugin providers must be registered before any command loads the config; the TUI shows failures in its status line
+await loadPlugins();
+if (args[0] || args.includes("--json")) {
+  for (const error of getPluginErrors()) {
+    process.stderr.write(`xdist: plugin ${error}\n`);
+  }
+}
+
+if (args[0] === "status") {
+  process.exit(await runStatus(args.slice(1)));
+}
+
+if (args[0] === "check") {
+  process.exit(await runCheck(args.slice(1)));
+}
+
+if (args[0] === "export") {
+  process.exit(await runExport(args.slice(1)));
+}
+
+if (args[0] === "serve") {
+  process.exit(await runServe(args.slice(1)));
+}
+
+if (args[0] === "webhooks") {
+  process.exit(await runWebhooks(args.slice(1)));
+}
+
+if (args.includes("--json")) {
+  process.exit(await runJson());
+}
 
 await run();
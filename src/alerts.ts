@@ -0,0 +1,154 @@
+import { getAgentConfig } from "./config";
+import { resolveBillingCycle } from "./cycle";
+import { hasAlertFired, markAlertFired } from "./history";
+import type { AgentConfig, AgentKey, AgentSnapshot, AlertAction, AlertRule, AlertRuleKind, AppConfig } from "./types";
+import { formatMoney, formatNumber } from "./ui/format";
+import { sendAlertWebhooks } from "./webhooks";
+
+const DEFAULT_QUOTA_RULES: AlertRule[] = [50, 80, 100].map((threshold) => ({ kind: "usage", threshold }));
+const SPIKE_BASELINE_DAYS = 7;
+const DAY_MS = 86400000;
+
+export interface FiredAlert {
+  provider: AgentKey;
+  label: string;
+  kind: AlertRuleKind;
+  threshold: number;
+  value: number;
+  // cycle start for usage/cost rules, the day for spike rules
+  period: string;
+  message: string;
+  firedAt: string;
+}
+
+// Without a history db, this still keeps each alert to once per run
+const firedThisRun = new Set<string>();
+
+export function resolveAlertRules(cfg: AgentConfig): AlertRule[] {
+  if (cfg.alerts) {
+    return cfg.alerts;
+  }
+
+  return cfg.billingMode === "quota" && typeof cfg.monthlyLimit === "number" ? DEFAULT_QUOTA_RULES : [];
+}
+
+export function resolveAlertActions(config: AppConfig): AlertAction[] {
+  return config.alertActions ?? ["banner"];
+}
+
+// Today's cost against the average of the previous week; undefined without a baseline to compare with
+function spikeRatio(snapshot: AgentSnapshot, today: string, now: Date): number | undefined {
+  const baselineStart = new Date(now.getTime() - SPIKE_BASELINE_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const todayCost = snapshot.daily.find((point) => point.day === today)?.cost ?? 0;
+  const baseline = snapshot.daily
+    .filter((point) => point.day >= baselineStart && point.day < today)
+    .reduce((sum, point) => sum + point.cost, 0) / SPIKE_BASELINE_DAYS;
+
+  return baseline > 0 ? todayCost / baseline : undefined;
+}
+
+function measure(kind: AlertRuleKind, snapshot: AgentSnapshot, cfg: AgentConfig, today: string, now: Date): number | undefined {
+  switch (kind) {
+    case "usage": {
+      const limit = cfg.monthlyLimit ?? snapshot.limit;
+      return typeof limit === "number" && limit > 0 ? (snapshot.used / limit) * 100 : undefined;
+    }
+    case "cost":
+      return snapshot.cost ?? 0;
+    case "spike":
+      return spikeRatio(snapshot, today, now);
+  }
+}
+
+function describe(kind: AlertRuleKind, snapshot: AgentSnapshot, cfg: AgentConfig, threshold: number, value: number): string {
+  switch (kind) {
+    case "usage": {
+      const limit = cfg.monthlyLimit ?? snapshot.limit ?? 0;
+      return `${snapshot.label} reached ${threshold}% of its limit (${formatNumber(snapshot.used)}/${formatNumber(limit)} ${snapshot.unit})`;
+    }
+    case "cost":
+      return `${snapshot.label} spent ${formatMoney(snapshot.cost)} this cycle (alert at ${formatMoney(threshold)})`;
+    case "spike":
+      return `${snapshot.label} spend today is ${value.toFixed(1)}x its ${SPIKE_BASELINE_DAYS}-day average`;
+  }
+}
+
+// Crossing several thresholds at once (e.g. on first run) reports only the highest and marks the rest as fired
+export function evaluateAlerts(snapshot: AgentSnapshot, cfg: AgentConfig, now = new Date()): FiredAlert[] {
+  if (!snapshot.enabled || !snapshot.configured || snapshot.loading || snapshot.error) {
+    return [];
+  }
+
+  const cycle = resolveBillingCycle(cfg, now).startKey;
+  const today = now.toISOString().slice(0, 10);
+  const fired: FiredAlert[] = [];
+
+  for (const kind of ["usage", "cost", "spike"] as const) {
+    const value = measure(kind, snapshot, cfg, today, now);
+    if (value === undefined) {
+      continue;
+    }
+
+    const period = kind === "spike" ? today : cycle;
+    const pending = resolveAlertRules(cfg)
+      .filter((rule) => rule.kind === kind && value >= rule.threshold)
+      .map((rule) => ({ rule, id: `${rule.kind}:${rule.threshold}` }))
+      .filter(({ id }) => !firedThisRun.has(`${snapshot.key}|${period}|${id}`) && !hasAlertFired(snapshot.key, period, id));
+    if (pending.length === 0) {
+      continue;
+    }
+
+    for (const { id } of pending) {
+      firedThisRun.add(`${snapshot.key}|${period}|${id}`);
+      markAlertFired(snapshot.key, period, id, now);
+    }
+
+    const threshold = Math.max(...pending.map(({ rule }) => rule.threshold));
+    fired.push({
+      provider: snapshot.key,
+      label: snapshot.label,
+      kind,
+      threshold,
+      value,
+      period,
+      message: describe(kind, snapshot, cfg, threshold, value),
+      firedAt: now.toISOString(),
+    });
+  }
+
+  return fired;
+}
+
+async function runCommand(argv: string[], stdin?: string): Promise<void> {
+  try {
+    const child = Bun.spawn(argv, { stdin: stdin === undefined ? "ignore" : new Blob([stdin]), stdout: "ignore", stderr: "ignore" });
+    await child.exited;
+  } catch {
+    // a missing notifier or failing hook must not break refreshes
+  }
+}
+
+export async function dispatchAlerts(alerts: FiredAlert[], config: AppConfig): Promise<void> {
+  const actions = resolveAlertActions(config);
+  const notifyCommand = (config.alertNotifyCommand?.trim() || "notify-send").split(/\s+/);
+  const hook = config.alertHook?.trim();
+
+  await sendAlertWebhooks(alerts, config);
+  for (const alert of alerts) {
+    if (actions.includes("notify")) {
+      await runCommand([...notifyCommand, `xdist: ${alert.label}`, alert.message]);
+    }
+    if (actions.includes("hook") && hook) {
+      await runCommand(["sh", "-c", hook], `${JSON.stringify(alert)}\n`);
+    }
+  }
+}
+
+// Evaluates every snapshot after a refresh and runs the external actions; the caller shows the banner
+export function checkAlerts(snapshots: AgentSnapshot[], config: AppConfig, now = new Date()): FiredAlert[] {
+  const fired = snapshots.flatMap((snapshot) => evaluateAlerts(snapshot, getAgentConfig(config, snapshot.key), now));
+  if (fired.length > 0) {
+    void dispatchAlerts(fired, config);
+  }
+  return fired;
+}
@@ -1,16 +1,44 @@
 ﻿import { Box, Text, createCliRenderer, fg, t, type KeyEvent, type PasteEvent } from "@opentui/core";
-import { loadConfig, saveConfig } from "./config";
+import { checkAlerts, resolveAlertActions, type FiredAlert } from "./alerts";
+import { getAgentConfig, loadConfig, saveConfig } from "./config";
+import { daysUntilReset, isValidTimeZone, resolveBillingCycle } from "./cycle";
+import { parseDateRange, writeExport } from "./export";
+import { computePace, forecastSnapshot, type MetricForecast } from "./forecast";
+import { collectCommitDays, summarizeCommits, type GitScan } from "./git";
+import { closeHistory } from "./history";
+import { getPluginErrors } from "./plugins";
 import { getProvider, PROVIDERS } from "./providers";
+import { createInitialSnapshots, getSnapshot, normalizeDailyUsage, refreshSnapshot, resolveAccountConfig } from "./snapshots";
 import { THEMES, getTheme, type ThemeDefinition } from "./themes";
-import type { AgentKey, AgentProvider, AgentSnapshot, BillingMode, DailyUsagePoint, HeatmapInfoMode, HeatmapScope, Screen } from "./types";
+import type { AgentKey, AgentSnapshot, DailyUsagePoint, HeatmapInfoMode, HeatmapScope, LimitWindowUsage, ProviderSettingField, Screen } from "./types";
 import { BAR_STYLE_OPTIONS, REFRESH_PRESETS, SETTINGS_PAGES } from "./ui/constants";
-import { toBar } from "./ui/format";
+import { costParts, formatClock, formatMoney, formatNumber, formatOrdinal, toBar, toBarWithGhost, usageParts } from "./ui/format";
+import { sendDueDigests } from "./webhooks";
 
 const DEFAULT_AGENT: AgentKey = "github-copilot";
+const COMMIT_GLYPH = "◆";
+// Settings page order; a provider's settingsFields picks from these
+const MODEL_FIELDS: ProviderSettingField[] = [
+  "enabled",
+  "billingMode",
+  "source",
+  "credential",
+  "accentColor",
+  "username",
+  "baseUrl",
+  "dataDir",
+  "lookbackDays",
+  "monthlyLimit",
+  "costLimit",
+  "dailyAllowance",
+  "cycleStartDay",
+  "cycleTimeZone",
+  "manualUsed",
+  "manualCost",
+];
 
 type DetailPaneMode = "sidebar" | "bottom" | "hidden";
 type SettingsPageKey = (typeof SETTINGS_PAGES)[number]["key"];
-type ModelFieldKey = "enabled" | "billingMode" | "credential" | "accentColor" | "username" | "monthlyLimit" | "costLimit" | "manualUsed" | "manualCost";
 type UiRowKey =
   | "theme"
   | "barStyle"
@@ -18,6 +46,7 @@ type UiRowKey =
   | "detailPaneMode"
   | "dashboardMetrics"
   | "showModeColumn"
+  | "showPaceColumn"
   | "heatmapScope"
   | "heatmapProvider"
   | "heatmapMetric"
@@ -49,7 +78,7 @@ interface ProviderRow {
 interface FieldRow {
   kind: "field";
   providerKey: AgentKey;
-  field: ModelFieldKey;
+  field: ProviderSettingField;
 }
 
 type ModelRow = ProviderRow | FieldRow;
@@ -76,25 +105,43 @@ interface AppState {
   animationFrame: number;
   resizeWatchTimer: Timer | null;
   statusLine: string;
+  // alerts shown in the dashboard banner until dismissed
+  alerts: FiredAlert[];
+  // commits per day from gitRepos; null until the first scan (or when none are configured)
+  git: GitScan | null;
   shuttingDown: boolean;
 }
 
-function fieldDescription(field: ModelFieldKey): string {
+function fieldDescription(field: ProviderSettingField): string {
   switch (field) {
     case "enabled":
       return "Toggle provider availability";
     case "billingMode":
       return "Choose quota or pay-as-you-go";
+    case "source":
+      return "Live API or local session logs";
     case "credential":
       return "Token / API key editor";
     case "accentColor":
       return "Custom color for this provider row";
     case "username":
       return "Username for billing usage API (or org:slug)";
+    case "baseUrl":
+      return "API base URL override (blank = default)";
+    case "dataDir":
+      return "Local logs/history directory (blank = default)";
+    case "lookbackDays":
+      return "Days of history to fetch for the heatmap";
     case "monthlyLimit":
       return "Usage budget cap";
     case "costLimit":
       return "Monthly spend budget cap";
+    case "dailyAllowance":
+      return "Per-day budget for the pace column (blank = even split)";
+    case "cycleStartDay":
+      return "Day of the month the billing cycle resets";
+    case "cycleTimeZone":
+      return "Time zone the billing cycle resets in";
     case "manualUsed":
       return "Manual usage fallback value";
     case "manualCost":
@@ -104,57 +151,6 @@ function fieldDescription(field: ModelFieldKey): string {
   }
 }
 
-function blankSnapshot(provider: AgentProvider, enabled: boolean, billingMode: BillingMode): AgentSnapshot {
-  return {
-    key: provider.key,
-    label: provider.label,
-    accent: provider.accent,
-    enabled,
-    configured: false,
-    billingMode,
-    loading: false,
-    used: 0,
-    limit: undefined,
-    unit: "req",
-    cost: 0,
-    progress: 0,
-    details: [provider.description],
-    breakdown: [],
-    daily: [],
-    fetchedMonths: 0,
-    revealCursor: 0,
-    fetchedAt: undefined,
-  };
-}
-
-function createInitialSnapshots(): Record<AgentKey, AgentSnapshot> {
-  return {
-    "github-copilot": blankSnapshot(getProvider("github-copilot"), true, "quota"),
-    codex: blankSnapshot(getProvider("codex"), false, "quota"),
-    claude: blankSnapshot(getProvider("claude"), false, "quota"),
-    zai: blankSnapshot(getProvider("zai"), false, "quota"),
-    minimax: blankSnapshot(getProvider("minimax"), false, "quota"),
-    "vercel-ai": blankSnapshot(getProvider("vercel-ai"), false, "payg"),
-    ollama: blankSnapshot(getProvider("ollama"), false, "payg"),
-    openrouter: blankSnapshot(getProvider("openrouter"), false, "payg"),
-    cursor: blankSnapshot(getProvider("cursor"), false, "payg"),
-    antigravity: blankSnapshot(getProvider("antigravity"), false, "payg"),
-    opencode: blankSnapshot(getProvider("opencode"), false, "payg"),
-  };
-}
-
-function pickConfiguredProgress(mode: BillingMode, used: number, limit: number | undefined): number {
-  if (mode === "payg") {
-    return 1;
-  }
-
-  if (typeof limit !== "number" || limit <= 0) {
-    return 1;
-  }
-
-  return clamp(used / limit, 0, 1);
-}
-
 export async function run(): Promise<void> {
   const renderer = await createCliRenderer({
     exitOnCtrlC: false,
@@ -172,19 +168,7 @@ export async function run(): Promise<void> {
     settingsPage: "model-settings",
     modelSelection: 0,
     uiSelection: 0,
-    expandedProviders: {
-      "github-copilot": true,
-      codex: false,
-      claude: false,
-      zai: false,
-      minimax: false,
-      "vercel-ai": false,
-      ollama: false,
-      openrouter: false,
-      cursor: false,
-      antigravity: false,
-      opencode: false,
-    },
+    expandedProviders: Object.fromEntries(PROVIDERS.map((provider) => [provider.key, provider.key === DEFAULT_AGENT])),
     prompt: null,
     promptCursorVisible: true,
     promptCursorTimer: null,
@@ -197,6 +181,8 @@ export async function run(): Promise<void> {
     animationFrame: 0,
     resizeWatchTimer: null,
     statusLine: "ready",
+    alerts: [],
+    git: null,
     shuttingDown: false,
   };
 
@@ -206,7 +192,7 @@ export async function run(): Promise<void> {
 
     // Sweep reveal cursors for all snapshots
     for (const key of providerOrder) {
-      const snap = state.snapshots[key];
+      const snap = getSnapshot(state.snapshots, key);
       const heatmapCellWidth = clamp(state.config.heatmapCellWidth ?? 1, 1, 4);
 
       const targetCursor = Math.floor((snap.fetchedMonths ?? 0) * 4.3452 * heatmapCellWidth);
@@ -254,7 +240,7 @@ export async function run(): Promise<void> {
   }
 
   function getEnabledProviderKeys(): AgentKey[] {
-    return providerOrder.filter((key) => state.config.agents[key].enabled);
+    return providerOrder.filter((key) => getAgentConfig(state.config, key).enabled);
   }
 
   function selectedProviderFromDashboard(): AgentKey | undefined {
@@ -268,18 +254,115 @@ export async function run(): Promise<void> {
   }
 
   function getUsageParts(key: AgentKey): { used: string; max: string } {
-    const snapshot = state.snapshots[key];
-    const cfg = state.config.agents[key];
-    const used = snapshot.unit === "req" ? formatNumber(snapshot.used) : `${formatNumber(snapshot.used)}${snapshot.unit}`;
-    const max = cfg.billingMode === "quota" ? (typeof cfg.monthlyLimit === "number" ? formatNumber(cfg.monthlyLimit) : "∞") : "∞";
-    return { used, max };
+    return usageParts(getSnapshot(state.snapshots, key), getAgentConfig(state.config, key));
   }
 
   function getCostParts(key: AgentKey): { current: string; max: string } {
-    const snapshot = state.snapshots[key];
-    const cfg = state.config.agents[key];
-    const max = typeof cfg.costLimit === "number" ? formatMoney(cfg.costLimit) : "∞";
-    return { current: formatMoney(snapshot.cost), max };
+    return costParts(getSnapshot(state.snapshots, key), getAgentConfig(state.config, key));
+  }
+
+  // provider label with a "resets in N days" marker for the billing cycle
+  function getProviderLabel(key: AgentKey): string {
+    const snapshot = getSnapshot(state.snapshots, key);
+    const days = daysUntilReset(resolveBillingCycle(getAgentConfig(state.config, key)));
+    return `${snapshot.label} ↻${days}d`;
+  }
+
+  function getAccountParts(key: AgentKey, child: AgentSnapshot): { label: string; used: string; max: string; cost: string; costMax: string } {
+    const cfg = getAgentConfig(state.config, key);
+    const account = cfg.accounts?.find((item) => item.name === child.account);
+    const accountCfg = account ? resolveAccountConfig(cfg, account) : cfg;
+    const usage = usageParts(child, accountCfg);
+    const cost = costParts(child, accountCfg);
+    return { label: `↳ ${child.account ?? ""}${child.error ? " !" : ""}`, used: usage.used, max: usage.max, cost: cost.current, costMax: cost.max };
+  }
+
+  function getWindowParts(key: AgentKey, window: LimitWindowUsage): { label: string; used: string; max: string; cost: string; costMax: string } {
+    const snapshot = getSnapshot(state.snapshots, key);
+    const resetsIn = window.unsupported ? "n/a" : window.resetsAt ? formatCountdown(new Date(window.resetsAt).getTime() - Date.now()) : "idle";
+    return {
+      label: `↳ ${window.name} (${resetsIn})`,
+      used: snapshot.unit === "req" ? formatNumber(window.used) : `${formatNumber(window.used)}${snapshot.unit}`,
+      max: typeof window.limit === "number" ? formatNumber(window.limit) : "∞",
+      cost: formatMoney(window.cost),
+      costMax: typeof window.costLimit === "number" ? formatMoney(window.costLimit) : "∞",
+    };
+  }
+
+  // "projected: 640/500 (breach on the 24th)" lines for the detail pane, on the recent-weighted pace
+  function getForecastLines(key: AgentKey): Array<{ text: string; danger: boolean }> {
+    const snapshot = getSnapshot(state.snapshots, key);
+    const cfg = getAgentConfig(state.config, key);
+    const forecast = forecastSnapshot(snapshot, cfg);
+    const timeZone = cfg.cycleTimeZone && isValidTimeZone(cfg.cycleTimeZone) ? cfg.cycleTimeZone : "UTC";
+    const formatUsed = (value: number) => (snapshot.unit === "req" ? formatNumber(Math.round(value)) : `${formatNumber(Math.round(value))}${snapshot.unit}`);
+
+    const describe = (label: string, metric: MetricForecast, format: (value: number) => string) => {
+      const target = typeof metric.limit === "number" ? `${format(metric.recent)}/${format(metric.limit)}` : format(metric.recent);
+      if (metric.breached) {
+        return { text: `${label}: ${target} (over limit)`, danger: true };
+      }
+      if (metric.breachAt) {
+        const day = Number(new Intl.DateTimeFormat("en-US", { day: "numeric", timeZone }).format(metric.breachAt));
+        return { text: `${label}: ${target} (breach on the ${formatOrdinal(day)})`, danger: true };
+      }
+      return { text: `${label}: ${target}`, danger: false };
+    };
+
+    const lines: Array<{ text: string; danger: boolean }> = [];
+    if (snapshot.billingMode === "quota") {
+      lines.push(describe("projected", forecast.used, formatUsed));
+      lines.push({ text: `  linear ${formatUsed(forecast.used.linear)} · recent ${formatUsed(forecast.used.recent)}`, danger: false });
+    }
+    if ((snapshot.cost ?? 0) > 0 || typeof forecast.cost.limit === "number") {
+      lines.push(describe("projected cost", forecast.cost, formatMoney));
+      if (snapshot.billingMode === "payg") {
+        lines.push({ text: `  linear ${formatMoney(forecast.cost.linear)} · recent ${formatMoney(forecast.cost.recent)}`, danger: false });
+      }
+    }
+
+    return lines;
+  }
+
+  // "Shipped: 3 today · 41 this cycle" plus spend per commit and usage per merged line for the selected provider
+  function getShippingLines(key: AgentKey): string[] {
+    if (!state.git) {
+      return [];
+    }
+
+    const snapshot = getSnapshot(state.snapshots, key);
+    const cycle = resolveBillingCycle(getAgentConfig(state.config, key));
+    const today = new Date().toISOString().slice(0, 10);
+    const todayStats = summarizeCommits(state.git.days, today, today);
+    const cycleStats = summarizeCommits(state.git.days, cycle.startKey, today);
+
+    const lines = [`shipped: ${todayStats.commits} today · ${cycleStats.commits} this cycle (+${formatNumber(cycleStats.added)} lines)`];
+    if (cycleStats.commits > 0) {
+      const perLine = cycleStats.added > 0 ? ` · ${(snapshot.used / cycleStats.added).toFixed(2)} ${snapshot.unit}/line` : "";
+      lines.push(`  ${formatMoney((snapshot.cost ?? 0) / cycleStats.commits)}/commit${perLine}`);
+    }
+    for (const error of state.git.errors) {
+      lines.push(`  git: ${error}`);
+    }
+    return lines;
+  }
+
+  // "+35%" when today is ahead of the daily allotment, "-20%" when behind
+  function getPaceParts(key: AgentKey): { text: string; level: "ok" | "warning" | "danger" } {
+    const snapshot = getSnapshot(state.snapshots, key);
+    const pace = snapshot.configured && !snapshot.error ? computePace(snapshot, getAgentConfig(state.config, key)) : undefined;
+    if (!pace) {
+      return { text: "-", level: "ok" };
+    }
+    if (!Number.isFinite(pace.ratio)) {
+      return { text: "over", level: "danger" };
+    }
+
+    const delta = Math.round((pace.ratio - 1) * 100);
+    return {
+      text: `${delta > 0 ? "+" : ""}${delta}%`,
+      level: pace.ratio >= 1.5 ? "danger" : pace.ratio > 1 ? "warning" : "ok",
+    };
   }
 
   function openPrompt(prompt: PromptState): void {
@@ -394,13 +477,6 @@ export async function run(): Promise<void> {
     return parsed;
   }
 
-  function normalizeDailyUsage(input: DailyUsagePoint[] | undefined): DailyUsagePoint[] {
-    const valid = (input ?? [])
-      .filter((item) => Number.isFinite(item.used) && Number.isFinite(item.cost) && Boolean(fromDayKey(item.day)))
-      .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
-    return valid;
-  }
-
   function sumDailyUsageSeries(seriesList: DailyUsagePoint[][]): DailyUsagePoint[] {
     const byDay = new Map<string, { used: number; cost: number }>();
 
@@ -484,16 +560,16 @@ export async function run(): Promise<void> {
         onSubmit: (value) => {
           const token = value.trim();
           if (token) {
-            state.config.agents[providerKey].token = token;
+            getAgentConfig(state.config, providerKey).token = token;
             save();
           }
 
           openTextPrompt(
             providerKey,
-            state.config.agents[providerKey].username,
+            getAgentConfig(state.config, providerKey).username,
             ["Enter your GitHub username/handle", "Used in /users/{username}/settings/billing/premium_request/usage (or org:slug for organizations)"],
             (next) => {
-              state.config.agents[providerKey].username = next;
+              getAgentConfig(state.config, providerKey).username = next;
             },
           );
         },
@@ -504,7 +580,7 @@ export async function run(): Promise<void> {
     openPrompt({
       providerKey,
       title: provider.label,
-      instructions: [
+      instructions: provider.credentialInstructions ?? [
         `Paste ${provider.label} API key`,
         "Use key from provider dashboard or account settings",
       ],
@@ -514,7 +590,7 @@ export async function run(): Promise<void> {
       onSubmit: (value) => {
         const apiKey = value.trim();
         if (apiKey) {
-          state.config.agents[providerKey].apiKey = apiKey;
+          getAgentConfig(state.config, providerKey).apiKey = apiKey;
           save();
         }
         closePrompt();
@@ -526,7 +602,7 @@ export async function run(): Promise<void> {
   function ensureFirstMissingConfigPrompt(): void {
     const key = providerOrder.find((providerKey) => {
       const provider = getProvider(providerKey);
-      return state.config.agents[providerKey].enabled && !provider.isConfigured(state.config.agents[providerKey]);
+      return getAgentConfig(state.config, providerKey).enabled && !provider.isConfigured(getAgentConfig(state.config, providerKey));
     });
 
     if (!key || state.prompt || state.themePopupOpen) {
@@ -556,6 +632,20 @@ export async function run(): Promise<void> {
     );
   }
 
+  function buildAlertBanner(theme: ThemeDefinition, width: any = "100%") {
+    const latest = state.alerts[state.alerts.length - 1];
+    if (!latest) {
+      return Box({ height: 1 });
+    }
+
+    const more = state.alerts.length > 1 ? ` (+${state.alerts.length - 1} more)` : "";
+    const color = latest.kind === "usage" && latest.threshold < 100 ? theme.warning : theme.danger;
+    return Box(
+      { width: width, height: 1, backgroundColor: theme.appBg, paddingLeft: width === "100%" ? 1 : 0 },
+      Text({ content: `! ${latest.message}${more}`, fg: color, truncate: true }),
+    );
+  }
+
   function buildCommandBar(theme: ThemeDefinition, width: any = "100%") {
     const segments =
       state.screen === "dashboard"
@@ -563,6 +653,8 @@ export async function run(): Promise<void> {
           ["q", "quit"],
           ["r", "refresh"],
           ["s", "settings"],
+          ["e", "export"],
+          ...(state.alerts.length > 0 ? [["x", "dismiss"]] : []),
           ["↑/↓", "select"],
         ]
         : [
@@ -611,7 +703,7 @@ export async function run(): Promise<void> {
     showReq = true,
     showCost = true,
   ) {
-    const snapshot = state.snapshots[key];
+    const snapshot = getSnapshot(state.snapshots, key);
 
     const fadeColors = [theme.text, "#b8c0d4", "#9aa4c0", "#808ca8", theme.muted];
 
@@ -678,6 +770,28 @@ export async function run(): Promise<void> {
       return detailRow(item.label, `${formatNumber(item.used)}`, formatMoney(item.cost), c);
     });
 
+    const windowRows = snapshot.windows.map((window) => {
+      const parts = getWindowParts(key, window);
+      const resets = window.unsupported
+        ? "needs per-request timestamps"
+        : window.resetsAt
+          ? `resets in ${formatCountdown(new Date(window.resetsAt).getTime() - Date.now())}`
+          : "no active window";
+      return detailRow(
+        `${window.name} · ${resets}`,
+        `${parts.used}/${parts.max}`,
+        `${parts.cost}/${parts.costMax}`,
+        window.progress >= 1 ? theme.danger : theme.muted,
+      );
+    });
+
+    const forecastRows = snapshot.configured && !snapshot.error && !snapshot.loading ? getForecastLines(key).map((line) =>
+      Box({ width: paneWidth }, Text({ content: fit(line.text, paneWidth), fg: line.danger ? theme.danger : theme.muted, truncate: true })),
+    ) : [];
+    const shippingRows = getShippingLines(key).map((line) =>
+      Box({ width: paneWidth }, Text({ content: fit(line, paneWidth), fg: theme.muted, truncate: true })),
+    );
+
     // ----------------------
     // Daily usage heatmap
     // ----------------------
@@ -693,8 +807,8 @@ export async function run(): Promise<void> {
     const configuredHeatmapProvider: AgentKey = (hp === ("all" as any) ? DEFAULT_AGENT : hp) as AgentKey;
 
     const enabledSnapshots = providerOrder
-      .filter((providerKey) => state.config.agents[providerKey].enabled)
-      .map((providerKey) => state.snapshots[providerKey])
+      .filter((providerKey) => getAgentConfig(state.config, providerKey).enabled)
+      .map((providerKey) => getSnapshot(state.snapshots, providerKey))
       .filter((item): item is AgentSnapshot => Boolean(item));
 
     const totalDaily = sumDailyUsageSeries(enabledSnapshots.map((item) => normalizeDailyUsage(item.daily)));
@@ -732,6 +846,7 @@ export async function run(): Promise<void> {
     const totalCells = cols * 7;
     const palette = heatmapPalette(heatmapSteps, scopeAccent, theme.appBg);
     const byDay = new Map(graphDaily.map((item) => [item.day, item]));
+    const commitsByDay = new Map((state.git?.days ?? []).map((item) => [item.day, item.commits]));
 
     const today = new Date();
     today.setUTCHours(0, 0, 0, 0);
@@ -739,6 +854,7 @@ export async function run(): Promise<void> {
     start.setUTCDate(start.getUTCDate() - (totalCells - 1));
 
     const grid: number[][] = Array.from({ length: 7 }, () => Array.from({ length: cols }, () => 0));
+    const commitGrid: boolean[][] = Array.from({ length: 7 }, () => Array.from({ length: cols }, () => false));
     const yearMarkers: { col: number; year: number }[] = [];
     const monthMarkers: { col: number; month: string }[] = [];
     const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
@@ -774,6 +890,10 @@ export async function run(): Promise<void> {
         const day = byDay.get(keyDay);
         const baseValue = heatmapMetric === "cost" ? (day?.cost ?? 0) : (day?.used ?? 0);
         row[c] = Math.max(0, baseValue);
+        const commitRow = commitGrid[r];
+        if (commitRow) {
+          commitRow[c] = (commitsByDay.get(keyDay) ?? 0) > 0;
+        }
         maxValue = Math.max(maxValue, row[c] ?? 0);
       }
     }
@@ -821,6 +941,9 @@ export async function run(): Promise<void> {
             const scanColor = palette[palette.length - 1] ?? scopeAccent;
             const fg = (isFrontier || isGlint) ? scanColor : "#1a1a1a";
             cells.push(Text({ content: char, fg }));
+          } else if (j === 0 && commitGrid[r]?.[c]) {
+            // days with commits get a marker in the first character of the cell
+            cells.push(Text({ content: COMMIT_GLYPH, fg: level > 0 ? color : theme.muted }));
           } else {
             cells.push(Text({ content: baseChar, fg: color }));
           }
@@ -898,6 +1021,9 @@ export async function run(): Promise<void> {
         return Box({ width: paneWidth }, Text({ content: headerLineParts.join(""), fg: theme.success, truncate: true }));
       })(),
       ...(modelRows.length > 0 ? modelRows : [detailRow("No model rows available", "", "", theme.muted)]),
+      ...windowRows,
+      ...forecastRows,
+      ...shippingRows,
       Text({ content: "", fg: theme.text }),
       Box(
         {
@@ -921,6 +1047,7 @@ export async function run(): Promise<void> {
           Text({ content: "Low ", fg: theme.muted }),
           ...legendSwatches,
           Text({ content: " High", fg: theme.muted }),
+          ...(state.git ? [Text({ content: `  ${COMMIT_GLYPH} commit`, fg: theme.muted })] : []),
         )
       )
     );
@@ -1013,6 +1140,7 @@ export async function run(): Promise<void> {
     const selectedKey = enabled[state.dashboardSelection] ?? enabled[0] ?? DEFAULT_AGENT;
     const viewportWidth = getViewportWidth();
     const showModeColumn = state.config.showModeColumn ?? true;
+    const showPaceColumn = state.config.showPaceColumn ?? true;
     const dashboardMetrics = state.config.dashboardMetrics ?? "both";
     const showUsageColumn = dashboardMetrics !== "cost";
     const showCostColumn = dashboardMetrics !== "req";
@@ -1025,25 +1153,57 @@ export async function run(): Promise<void> {
 
     const decimals = state.config.decimalPlaces ?? 0;
     // build textual previews for computing widest-cell widths
-    const rowTexts = enabled.map((k) => {
-      const s = state.snapshots[k];
+    const rowTexts = enabled.flatMap((k) => {
+      const s = getSnapshot(state.snapshots, k);
       const u = getUsageParts(k);
       const c = getCostParts(k);
-      return {
-        provider: s.label,
-        mode: s.billingMode === "payg" ? "PAYG" : "QUOTA",
-        percent: `${(s.progress * 100).toFixed(decimals)}%`,
-        usage: u.used,
-        usageMax: u.max,
-        cost: c.current,
-        costMax: c.max,
-      };
+      const windowTexts = s.windows.map((window) => {
+        const w = getWindowParts(k, window);
+        return {
+          provider: w.label,
+          mode: "",
+          percent: `${(window.progress * 100).toFixed(decimals)}%`,
+          pace: "",
+          usage: w.used,
+          usageMax: w.max,
+          cost: w.cost,
+          costMax: w.costMax,
+        };
+      });
+      const accountTexts = s.accounts.map((child) => {
+        const a = getAccountParts(k, child);
+        return {
+          provider: a.label,
+          mode: "",
+          percent: `${(child.progress * 100).toFixed(decimals)}%`,
+          pace: "",
+          usage: a.used,
+          usageMax: a.max,
+          cost: a.cost,
+          costMax: a.costMax,
+        };
+      });
+      return [
+        {
+          provider: getProviderLabel(k),
+          mode: s.billingMode === "payg" ? "PAYG" : "QUOTA",
+          percent: `${(s.progress * 100).toFixed(decimals)}%`,
+          pace: getPaceParts(k).text,
+          usage: u.used,
+          usageMax: u.max,
+          cost: c.current,
+          costMax: c.max,
+        },
+        ...accountTexts,
+        ...windowTexts,
+      ];
     });
 
     const headerLens = {
       provider: "Provider".length,
       mode: "Mode".length,
       progress: "Progress".length,
+      pace: "Pace".length,
       usage: "Used".length,
       usageMax: "Max".length,
       cost: "Cost".length,
@@ -1052,6 +1212,7 @@ export async function run(): Promise<void> {
 
     const providerMax = Math.max(headerLens.provider, ...(rowTexts.map((r) => r.provider.length)));
     const modeMax = Math.max(headerLens.mode, ...(rowTexts.map((r) => r.mode.length)));
+    const paceMax = Math.max(headerLens.pace, ...(rowTexts.map((r) => r.pace.length)));
     const usageMax = Math.max(headerLens.usage, ...(rowTexts.map((r) => r.usage.length)));
     const usageLimitMax = Math.max(headerLens.usageMax, ...(rowTexts.map((r) => r.usageMax.length)));
     const costMax = Math.max(headerLens.cost, ...(rowTexts.map((r) => r.cost.length)));
@@ -1066,6 +1227,7 @@ export async function run(): Promise<void> {
       mode: 4,
       bar: Math.max(8, Math.floor(availableTableWidth * 0.15)),
       percent: percentColMax,
+      pace: 4,
       usage: 5,
       usageMax: 5,
       cost: 5,
@@ -1077,6 +1239,7 @@ export async function run(): Promise<void> {
       mode: Math.max(MIN.mode, modeMax),
       bar: Math.max(MIN.bar, 20),
       percent: percentColMax,
+      pace: Math.max(MIN.pace, paceMax),
       usage: Math.max(MIN.usage, usageMax),
       usageMax: Math.max(MIN.usageMax, usageLimitMax),
       cost: Math.max(MIN.cost, costMax),
@@ -1089,6 +1252,7 @@ export async function run(): Promise<void> {
       mode: showModeColumn ? desired.mode : 0,
       bar: desired.bar,
       percent: desired.percent,
+      pace: showPaceColumn ? desired.pace : 0,
       usage: showUsageColumn ? desired.usage : 0,
       usageMax: showUsageColumn ? desired.usageMax : 0,
       cost: showCostColumn ? desired.cost : 0,
@@ -1097,15 +1261,15 @@ export async function run(): Promise<void> {
 
     // spacing between visible table columns (added gap counted in width math)
     const COL_GAP = 2;
-    const visibleCols = 2 + (showModeColumn ? 1 : 0) + 1 + (showUsageColumn ? 2 : 0) + (showCostColumn ? 2 : 0);
+    const visibleCols = 2 + (showModeColumn ? 1 : 0) + 1 + (showPaceColumn ? 1 : 0) + (showUsageColumn ? 2 : 0) + (showCostColumn ? 2 : 0);
     const gapCount = Math.max(0, visibleCols - 1);
 
     const totalWidth = () =>
-      widths.provider + widths.mode + widths.bar + widths.percent +
+      widths.provider + widths.mode + widths.bar + widths.percent + widths.pace +
       widths.usage + widths.usageMax + widths.cost + widths.costMax + gapCount * COL_GAP;
 
     let over = totalWidth() - availableTableWidth;
-    const shrinkOrder: Array<keyof typeof widths> = ["provider", "usage", "usageMax", "cost", "costMax", "mode", "bar"];
+    const shrinkOrder: Array<keyof typeof widths> = ["provider", "usage", "usageMax", "cost", "costMax", "mode", "pace", "bar"];
 
     while (over > 0) {
       let reduced = false;
@@ -1126,6 +1290,7 @@ export async function run(): Promise<void> {
     const colMode = widths.mode;
     const colBar = Math.max(1, widths.bar);
     const colPercent = widths.percent;
+    const colPace = widths.pace;
     const colUsage = widths.usage;
     const colUsageMax = widths.usageMax;
     const colCost = widths.cost;
@@ -1143,6 +1308,7 @@ export async function run(): Promise<void> {
       Box({ width: colBar }, Text({ content: fit("Progress", colBar), fg: theme.success, truncate: true })),
       Box({ width: COL_GAP }),
       Box({ width: colPercent }, Text({ content: fit("%", colPercent), fg: theme.success, truncate: true })),
+      ...(showPaceColumn ? [Box({ width: COL_GAP }), Box({ width: colPace }, Text({ content: fit("Pace", colPace), fg: theme.success, truncate: true }))] : []),
       ...(showUsageColumn
         ? [
           Box({ width: COL_GAP }),
@@ -1161,20 +1327,26 @@ export async function run(): Promise<void> {
         : []),
     );
 
-    const rows = enabled.map((key, index) => {
-      const snapshot = state.snapshots[key];
+    const rows = enabled.flatMap((key, index) => {
+      const snapshot = getSnapshot(state.snapshots, key);
       const rowSelected = index === state.dashboardSelection;
       const rowColor = rowSelected ? snapshot.accent : theme.muted;
       const mode = snapshot.billingMode === "payg" ? "PAYG" : "QUOTA";
 
       const decimals = state.config.decimalPlaces ?? 0;
-      const percentStr = `${(snapshot.progress * 100).toFixed(decimals)}%`;
-      const usage = getUsageParts(key);
-      const cost = getCostParts(key);
+      // with rollupAccounts off the provider row is only a heading for its account rows
+      const totalHidden = snapshot.accounts.length > 0 && getAgentConfig(state.config, key).rollupAccounts === false;
+      const percentStr = totalHidden ? "" : `${(snapshot.progress * 100).toFixed(decimals)}%`;
+      const usage = totalHidden ? { used: "", max: "" } : getUsageParts(key);
+      const cost = totalHidden ? { current: "", max: "" } : getCostParts(key);
+      const pace = totalHidden ? { text: "", level: "ok" as const } : getPaceParts(key);
 
       // The visual bar now uses the dedicated `colBar` width.
       const barInnerWidth = colBar;
       let progressStr = "";
+      let ghostStr = "";
+      let emptyStr = "";
+      let ghostColor = rowColor;
 
       if (snapshot.loading) {
         // Wave-style animations from left to right
@@ -1204,19 +1376,23 @@ export async function run(): Promise<void> {
           }
         }
         progressStr = anim;
-      } else {
-        const bar = toBar(snapshot.progress, barInnerWidth, state.config.barStyle, decimals);
-        progressStr = `${bar.fill}${bar.empty}`;
+      } else if (!totalHidden) {
+        const projected = snapshot.configured && !snapshot.error ? forecastSnapshot(snapshot, getAgentConfig(state.config, key)).progress : snapshot.progress;
+        const bar = toBarWithGhost(snapshot.progress, projected, barInnerWidth, state.config.barStyle, decimals);
+        progressStr = bar.fill;
+        ghostStr = bar.ghost;
+        emptyStr = bar.empty;
+        ghostColor = projected >= 1 ? theme.danger : rowColor;
       }
 
-      return Box(
+      const mainRow = Box(
         {
           width: tableWidth,
           flexDirection: "row",
           backgroundColor: "transparent",
         },
         Box({ width: colProvider },
-          Text({ content: fit(snapshot.label, colProvider), fg: rowColor, truncate: true }),
+          Text({ content: fit(getProviderLabel(key), colProvider), fg: rowColor, truncate: true }),
         ),
         Box({ width: COL_GAP }),
         ...(showModeColumn
@@ -1227,15 +1403,25 @@ export async function run(): Promise<void> {
             Box({ width: COL_GAP }),
           ]
           : []),
-        // Visual bar column
-        Box({ width: colBar },
+        // Visual bar column; the ghost segment is the projected fill at the end of the cycle
+        Box({ width: colBar, flexDirection: "row" },
           Text({ content: progressStr, fg: rowColor, truncate: true }),
+          ...(ghostStr ? [Text({ content: ghostStr, fg: ghostColor, truncate: true })] : []),
+          ...(emptyStr ? [Text({ content: emptyStr, fg: rowColor, truncate: true })] : []),
         ),
         Box({ width: COL_GAP }),
         // Percentage column - strictly right-aligned to match the header
         Box({ width: colPercent },
           Text({ content: fit(percentStr, colPercent), fg: rowColor, truncate: true }),
         ),
+        ...(showPaceColumn
+          ? [
+            Box({ width: COL_GAP }),
+            Box({ width: colPace },
+              Text({ content: fit(pace.text, colPace), fg: pace.level === "danger" ? theme.danger : pace.level === "warning" ? theme.warning : rowColor, truncate: true }),
+            ),
+          ]
+          : []),
         ...(showUsageColumn
           ? [
             Box({ width: COL_GAP }),
@@ -1261,6 +1447,78 @@ export async function run(): Promise<void> {
           ]
           : []),
       );
+
+      // one sub-row per limit window, each with its own bar and reset countdown
+      const windowRows = snapshot.loading
+        ? []
+        : snapshot.windows.map((window) => {
+          const parts = getWindowParts(key, window);
+          const bar = toBar(window.progress, colBar, state.config.barStyle, decimals);
+          const windowColor = window.progress >= 1 ? theme.danger : rowSelected ? snapshot.accent : theme.muted;
+
+          return Box(
+            { width: tableWidth, flexDirection: "row", backgroundColor: "transparent" },
+            Box({ width: colProvider }, Text({ content: fit(parts.label, colProvider), fg: windowColor, truncate: true })),
+            Box({ width: COL_GAP }),
+            ...(showModeColumn ? [Box({ width: colMode }), Box({ width: COL_GAP })] : []),
+            Box({ width: colBar }, Text({ content: `${bar.fill}${bar.empty}`, fg: windowColor, truncate: true })),
+            Box({ width: COL_GAP }),
+            Box({ width: colPercent }, Text({ content: fit(`${(window.progress * 100).toFixed(decimals)}%`, colPercent), fg: windowColor, truncate: true })),
+            ...(showPaceColumn ? [Box({ width: COL_GAP }), Box({ width: colPace })] : []),
+            ...(showUsageColumn
+              ? [
+                Box({ width: COL_GAP }),
+                Box({ width: colUsage }, Text({ content: fit(parts.used, colUsage), fg: windowColor, truncate: true })),
+                Box({ width: COL_GAP }),
+                Box({ width: colUsageMax }, Text({ content: fit(parts.max, colUsageMax), fg: windowColor, truncate: true })),
+              ]
+              : []),
+            ...(showCostColumn
+              ? [
+                Box({ width: COL_GAP }),
+                Box({ width: colCost }, Text({ content: fit(parts.cost, colCost), fg: windowColor, truncate: true })),
+                Box({ width: COL_GAP }),
+                Box({ width: colCostMax }, Text({ content: fit(parts.costMax, colCostMax), fg: windowColor, truncate: true })),
+              ]
+              : []),
+          );
+        });
+
+      // one sub-row per named account, with its own bar and totals
+      const accountRows = snapshot.accounts.map((child) => {
+        const parts = getAccountParts(key, child);
+        const bar = toBar(child.progress, colBar, state.config.barStyle, decimals);
+        const accountColor = child.error ? theme.danger : rowSelected ? snapshot.accent : theme.muted;
+
+        return Box(
+          { width: tableWidth, flexDirection: "row", backgroundColor: "transparent" },
+          Box({ width: colProvider }, Text({ content: fit(parts.label, colProvider), fg: accountColor, truncate: true })),
+          Box({ width: COL_GAP }),
+          ...(showModeColumn ? [Box({ width: colMode }), Box({ width: COL_GAP })] : []),
+          Box({ width: colBar }, Text({ content: child.loading ? "" : `${bar.fill}${bar.empty}`, fg: accountColor, truncate: true })),
+          Box({ width: COL_GAP }),
+          Box({ width: colPercent }, Text({ content: fit(`${(child.progress * 100).toFixed(decimals)}%`, colPercent), fg: accountColor, truncate: true })),
+          ...(showPaceColumn ? [Box({ width: COL_GAP }), Box({ width: colPace })] : []),
+          ...(showUsageColumn
+            ? [
+              Box({ width: COL_GAP }),
+              Box({ width: colUsage }, Text({ content: fit(parts.used, colUsage), fg: accountColor, truncate: true })),
+              Box({ width: COL_GAP }),
+              Box({ width: colUsageMax }, Text({ content: fit(parts.max, colUsageMax), fg: accountColor, truncate: true })),
+            ]
+            : []),
+          ...(showCostColumn
+            ? [
+              Box({ width: COL_GAP }),
+              Box({ width: colCost }, Text({ content: fit(parts.cost, colCost), fg: accountColor, truncate: true })),
+              Box({ width: COL_GAP }),
+              Box({ width: colCostMax }, Text({ content: fit(parts.costMax, colCostMax), fg: accountColor, truncate: true })),
+            ]
+            : []),
+        );
+      });
+
+      return [mainRow, ...accountRows, ...windowRows];
     });
 
     const tableColumn = Box(
@@ -1314,7 +1572,7 @@ export async function run(): Promise<void> {
           justifyContent: "center",
         },
         buildHeader(theme, totalContentWidth),
-        Box({ height: 1 }),
+        buildAlertBanner(theme, totalContentWidth),
         compactTableBlock,
         Box(
           {
@@ -1349,7 +1607,7 @@ export async function run(): Promise<void> {
         justifyContent: "center",
       },
       buildHeader(theme, totalContentWidth),
-      Box({ height: 1 }),
+      buildAlertBanner(theme, totalContentWidth),
       Box(
         {
           flexDirection: "row",
@@ -1377,23 +1635,22 @@ export async function run(): Promise<void> {
     for (const providerKey of providerOrder) {
       rows.push({ kind: "provider", providerKey });
       if (state.expandedProviders[providerKey]) {
-        rows.push({ kind: "field", providerKey, field: "enabled" });
-        rows.push({ kind: "field", providerKey, field: "billingMode" });
-        rows.push({ kind: "field", providerKey, field: "credential" });
-        rows.push({ kind: "field", providerKey, field: "accentColor" });
-        rows.push({ kind: "field", providerKey, field: "username" });
-        rows.push({ kind: "field", providerKey, field: "monthlyLimit" });
-        rows.push({ kind: "field", providerKey, field: "costLimit" });
-        rows.push({ kind: "field", providerKey, field: "manualUsed" });
-        rows.push({ kind: "field", providerKey, field: "manualCost" });
+        const provider = getProvider(providerKey);
+        const fields = provider.settingsFields ?? MODEL_FIELDS;
+        for (const field of MODEL_FIELDS) {
+          // a source switch only makes sense with more than one source
+          if (fields.includes(field) && (field !== "source" || (provider.sources?.length ?? 0) > 1)) {
+            rows.push({ kind: "field", providerKey, field });
+          }
+        }
       }
     }
 
     return rows;
   }
 
-  function modelControl(providerKey: AgentKey, field: ModelFieldKey): string {
-    const cfg = state.config.agents[providerKey];
+  function modelControl(providerKey: AgentKey, field: ProviderSettingField): string {
+    const cfg = getAgentConfig(state.config, providerKey);
     const provider = getProvider(providerKey);
 
     switch (field) {
@@ -1402,16 +1659,30 @@ export async function run(): Promise<void> {
       case "billingMode":
         const bm = cfg.billingMode.charAt(0).toUpperCase() + cfg.billingMode.slice(1);
         return `◀ ${bm} ▶`;
+      case "source":
+        return `◀ ${(cfg.source ?? provider.sources?.[0] ?? "api") === "local" ? "Local" : "API"} ▶`;
       case "credential":
         return provider.isConfigured(cfg) ? "Configured" : "Edit";
       case "accentColor":
         return cfg.accentColor?.trim() ? cfg.accentColor : provider.accent;
       case "username":
         return cfg.username?.trim() ? cfg.username : "Unset";
+      case "baseUrl":
+        return cfg.baseUrl?.trim() ? cfg.baseUrl : "Default";
+      case "dataDir":
+        return cfg.dataDir?.trim() ? cfg.dataDir : "Default";
+      case "lookbackDays":
+        return `◀ ${cfg.lookbackDays ?? 364} ▶`;
       case "monthlyLimit":
         return `◀ ${typeof cfg.monthlyLimit === "number" ? formatNumber(cfg.monthlyLimit) : "None"} ▶`;
       case "costLimit":
         return `◀ ${typeof cfg.costLimit === "number" ? formatMoney(cfg.costLimit) : "None"} ▶`;
+      case "dailyAllowance":
+        return `◀ ${typeof cfg.dailyAllowance === "number" ? formatNumber(cfg.dailyAllowance) : "Even"} ▶`;
+      case "cycleStartDay":
+        return `◀ ${cfg.cycleStartDay ?? 1} ▶`;
+      case "cycleTimeZone":
+        return cfg.cycleTimeZone?.trim() ? cfg.cycleTimeZone : "UTC";
       case "manualUsed":
         return `◀ ${typeof cfg.manualUsed === "number" ? formatNumber(cfg.manualUsed) : "0"} ▶`;
       case "manualCost":
@@ -1421,22 +1692,36 @@ export async function run(): Promise<void> {
     }
   }
 
-  function modelFieldTitle(field: ModelFieldKey): string {
+  function modelFieldTitle(field: ProviderSettingField): string {
     switch (field) {
       case "enabled":
         return "Enabled";
       case "billingMode":
         return "Billing Mode";
+      case "source":
+        return "Data Source";
       case "credential":
         return "Credential";
       case "accentColor":
         return "Provider Color";
       case "username":
         return "Username";
+      case "baseUrl":
+        return "Base URL";
+      case "dataDir":
+        return "Data Directory";
+      case "lookbackDays":
+        return "Lookback Days";
       case "monthlyLimit":
         return "Monthly Limit";
       case "costLimit":
         return "Cost Limit";
+      case "dailyAllowance":
+        return "Daily Allowance";
+      case "cycleStartDay":
+        return "Cycle Reset Day";
+      case "cycleTimeZone":
+        return "Cycle Time Zone";
       case "manualUsed":
         return "Manual Usage";
       case "manualCost":
@@ -1510,7 +1795,7 @@ export async function run(): Promise<void> {
 
       if (row.kind === "provider") {
         const expanded = state.expandedProviders[row.providerKey];
-        const snapshot = state.snapshots[row.providerKey];
+        const snapshot = getSnapshot(state.snapshots, row.providerKey);
         const control = formatControl(`${snapshot.enabled ? "On" : "Off"} • ${expanded ? "Open" : "Closed"}`, controlWidth);
 
         return Box(
@@ -1582,6 +1867,7 @@ export async function run(): Promise<void> {
       "detailPaneMode",
       "dashboardMetrics",
       "showModeColumn",
+      "showPaceColumn",
       "heatmapScope",
       "heatmapProvider",
       "heatmapMetric",
@@ -1650,6 +1936,12 @@ export async function run(): Promise<void> {
         value = formatControl(`◀ ${(state.config.showModeColumn ?? true) ? "ON" : "OFF"} ▶`, controlWidth);
       }
 
+      if (row === "showPaceColumn") {
+        title = "Pace column";
+        description = "Today vs. an even daily share of the limit";
+        value = formatControl(`◀ ${(state.config.showPaceColumn ?? true) ? "ON" : "OFF"} ▶`, controlWidth);
+      }
+
       if (row === "heatmapScope") {
         title = "Heatmap source";
         description = "Focused provider, selected provider, or total";
@@ -1970,89 +2262,32 @@ export async function run(): Promise<void> {
     state.statusLine = `refresh ${reason}`;
     redraw();
 
-    await Promise.all(
-      PROVIDERS.map(async (provider) => {
-        const cfg = state.config.agents[provider.key];
-        const snapshot = state.snapshots[provider.key];
-
-        snapshot.enabled = cfg.enabled;
-        snapshot.billingMode = cfg.billingMode;
-        snapshot.configured = provider.isConfigured(cfg);
-        snapshot.accent = cfg.accentColor?.trim() || provider.accent;
-        snapshot.label = provider.label;
-
-        if (!cfg.enabled) {
-          snapshot.loading = false;
-          snapshot.error = undefined;
-          snapshot.used = 0;
-          snapshot.limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
-          snapshot.cost = 0;
-          snapshot.progress = 0;
-          snapshot.breakdown = [];
-          snapshot.daily = normalizeDailyUsage(undefined);
-          snapshot.details = ["disabled"];
-          return;
-        }
-
-        if (!snapshot.configured) {
-          snapshot.loading = false;
-          snapshot.error = undefined;
-          snapshot.used = 0;
-          snapshot.limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
-          snapshot.cost = 0;
-          snapshot.progress = 0;
-          snapshot.breakdown = [];
-          snapshot.daily = normalizeDailyUsage(undefined);
-          snapshot.details = ["missing credentials"];
-          return;
-        }
-
-        try {
-          snapshot.loading = true;
-          snapshot.fetchedMonths = 0;
-          snapshot.revealCursor = 0;
-          const usage = await provider.fetchUsage(cfg, (partial) => {
-            if (partial.used !== undefined) snapshot.used = partial.used;
-            if (partial.cost !== undefined) snapshot.cost = partial.cost;
-            if (partial.breakdown !== undefined) snapshot.breakdown = partial.breakdown;
-            if (partial.daily !== undefined) snapshot.daily = normalizeDailyUsage(partial.daily);
-            if (partial.fetchedMonths !== undefined) snapshot.fetchedMonths = partial.fetchedMonths;
-            if (partial.limit !== undefined) {
-              snapshot.limit = partial.limit;
-              snapshot.progress = pickConfiguredProgress(cfg.billingMode, snapshot.used, partial.limit);
-            } else {
-              snapshot.progress = pickConfiguredProgress(cfg.billingMode, snapshot.used, snapshot.limit);
-            }
-            redraw();
-          });
-          const limit = cfg.billingMode === "quota" ? usage.limit ?? cfg.monthlyLimit : undefined;
-
-          snapshot.loading = false;
-          snapshot.error = undefined;
-          snapshot.used = usage.used;
-          snapshot.limit = limit;
-          snapshot.unit = usage.unit;
-          snapshot.cost = usage.cost ?? 0;
-          snapshot.progress = pickConfiguredProgress(cfg.billingMode, usage.used, limit);
-          snapshot.breakdown = usage.breakdown ?? [];
-          snapshot.daily = normalizeDailyUsage(usage.daily);
-          snapshot.fetchedMonths = usage.fetchedMonths;
-          snapshot.details = usage.details;
-          snapshot.fetchedAt = formatClock(new Date());
-        } catch (error) {
-          snapshot.loading = false;
-          snapshot.error = error instanceof Error ? error.message : String(error);
-          snapshot.progress = 0;
-          snapshot.breakdown = [];
-          snapshot.daily = normalizeDailyUsage(undefined);
-          snapshot.details = ["fetch failed"];
-        }
-      }),
-    );
+    // callers fire and forget, so a failure is reported here rather than left as an unhandled rejection
+    try {
+      const gitScan = (state.config.gitRepos?.length ?? 0) > 0 ? collectCommitDays(state.config) : Promise.resolve(null);
+      await Promise.all(
+        PROVIDERS.map((provider) => refreshSnapshot(provider, getAgentConfig(state.config, provider.key), getSnapshot(state.snapshots, provider.key), redraw)),
+      );
+      state.git = await gitScan;
+    } catch (error) {
+      state.statusLine = `refresh failed: ${error instanceof Error ? error.message : String(error)}`;
+      redraw();
+      return;
+    } finally {
+      state.refreshing = false;
+    }
 
-    state.refreshing = false;
     state.lastUpdatedAt = formatClock(new Date());
-    state.statusLine = "updated";
+    // plugins load before the renderer exists, so the first refresh is where their failures get reported
+    const pluginErrors = getPluginErrors();
+    state.statusLine = reason === "startup" && pluginErrors.length > 0 ? `plugin ${pluginErrors.join("; ")}` : "updated";
+
+    const enabledSnapshots = getEnabledProviderKeys().map((key) => getSnapshot(state.snapshots, key));
+    const fired = checkAlerts(enabledSnapshots, state.config);
+    if (fired.length > 0 && resolveAlertActions(state.config).includes("banner")) {
+      state.alerts.push(...fired);
+    }
+    void sendDueDigests(enabledSnapshots, state.config);
     redraw();
   }
 
@@ -2062,6 +2297,7 @@ export async function run(): Promise<void> {
     }
 
     state.shuttingDown = true;
+    closeHistory();
 
     if (state.refreshTimer) {
       clearInterval(state.refreshTimer);
@@ -2295,6 +2531,12 @@ export async function run(): Promise<void> {
     redraw();
   }
 
+  function toggleShowPaceColumn(): void {
+    state.config.showPaceColumn = !(state.config.showPaceColumn ?? true);
+    save();
+    redraw();
+  }
+
   function changeHeatmapScope(direction: 1 | -1): void {
     const order: HeatmapScope[] = ["focused", "provider", "total"];
     const current = state.config.heatmapScope ?? "focused";
@@ -2383,16 +2625,17 @@ export async function run(): Promise<void> {
   }
 
   function toggleBillingMode(providerKey: AgentKey): void {
-    state.config.agents[providerKey].billingMode = state.config.agents[providerKey].billingMode === "quota" ? "payg" : "quota";
+    getAgentConfig(state.config, providerKey).billingMode = getAgentConfig(state.config, providerKey).billingMode === "quota" ? "payg" : "quota";
     save();
     void refreshUsage("billing mode");
   }
 
-  function stepNumeric(providerKey: AgentKey, field: Extract<ModelFieldKey, "monthlyLimit" | "costLimit" | "manualUsed" | "manualCost">, direction: 1 | -1): void {
-    const cfg = state.config.agents[providerKey];
+  function stepNumeric(providerKey: AgentKey, field: Extract<ProviderSettingField, "monthlyLimit" | "costLimit" | "dailyAllowance" | "manualUsed" | "manualCost">, direction: 1 | -1): void {
+    const cfg = getAgentConfig(state.config, providerKey);
     const stepMap = {
       monthlyLimit: 10,
       costLimit: 1,
+      dailyAllowance: 1,
       manualUsed: 1,
       manualCost: 0.1,
     } as const;
@@ -2406,13 +2649,38 @@ export async function run(): Promise<void> {
     } else {
       cfg[field] = Number(next.toFixed(2));
     }
+    if (field === "manualUsed" || field === "manualCost") {
+      stampManualCycle(providerKey);
+    }
 
     save();
     void refreshUsage("numeric change");
   }
 
+  // manual values belong to the cycle they were entered in
+  function stampManualCycle(providerKey: AgentKey): void {
+    const cfg = getAgentConfig(state.config, providerKey);
+    cfg.manualCycle = resolveBillingCycle(cfg).startKey;
+  }
+
+  function stepCycleStartDay(providerKey: AgentKey, direction: 1 | -1): void {
+    const cfg = getAgentConfig(state.config, providerKey);
+    const next = cycleIndex(31, (cfg.cycleStartDay ?? 1) - 1, direction) + 1;
+    cfg.cycleStartDay = next === 1 ? undefined : next;
+    save();
+    void refreshUsage("numeric change");
+  }
+
+  function stepLookbackDays(providerKey: AgentKey, direction: 1 | -1): void {
+    const cfg = getAgentConfig(state.config, providerKey);
+    const next = clamp((cfg.lookbackDays ?? 364) + direction * 7, 7, 364);
+    cfg.lookbackDays = next === 364 ? undefined : next;
+    save();
+    void refreshUsage("numeric change");
+  }
+
   function handleModelFieldAction(row: FieldRow, keyName: string): void {
-    const cfg = state.config.agents[row.providerKey];
+    const cfg = getAgentConfig(state.config, row.providerKey);
 
     if (row.field === "enabled" && ["enter", "return", "space", "left", "right"].includes(keyName)) {
       cfg.enabled = !cfg.enabled;
@@ -2426,6 +2694,15 @@ export async function run(): Promise<void> {
       return;
     }
 
+    if (row.field === "source" && ["enter", "return", "space", "left", "right", "a", "d"].includes(keyName)) {
+      const sources = getProvider(row.providerKey).sources ?? [];
+      const idx = Math.max(0, sources.findIndex((item) => item === (cfg.source ?? sources[0])));
+      cfg.source = sources[cycleIndex(sources.length, idx, keyName === "left" || keyName === "a" ? -1 : 1)];
+      save();
+      void refreshUsage("data source");
+      return;
+    }
+
     if (row.field === "credential" && ["enter", "return", "e"].includes(keyName)) {
       openCredentialPrompt(row.providerKey);
       return;
@@ -2455,6 +2732,47 @@ export async function run(): Promise<void> {
       return;
     }
 
+    if (row.field === "baseUrl" && ["enter", "return", "e"].includes(keyName)) {
+      openTextPrompt(
+        row.providerKey,
+        cfg.baseUrl,
+        ["Set API base URL (e.g. http://localhost:8080 for a local mock)", "Leave empty to use the provider default"],
+        (next) => {
+          cfg.baseUrl = next;
+        },
+      );
+      return;
+    }
+
+    if (row.field === "dataDir" && ["enter", "return", "e"].includes(keyName)) {
+      openTextPrompt(
+        row.providerKey,
+        cfg.dataDir,
+        ["Set the local directory this provider reads logs/history from", "Leave empty to use the provider default"],
+        (next) => {
+          cfg.dataDir = next;
+        },
+      );
+      return;
+    }
+
+    if (row.field === "lookbackDays") {
+      if (keyName === "left" || keyName === "a") {
+        stepLookbackDays(row.providerKey, -1);
+        return;
+      }
+      if (keyName === "right" || keyName === "d") {
+        stepLookbackDays(row.providerKey, 1);
+        return;
+      }
+      if (["enter", "return", "e"].includes(keyName)) {
+        openNumberPrompt(row.providerKey, cfg.lookbackDays, ["Days of history to fetch (1-364)", "Leave empty for the full 364 days"], (next) => {
+          cfg.lookbackDays = typeof next === "number" ? clamp(Math.round(next), 1, 364) : undefined;
+        });
+      }
+      return;
+    }
+
     if (row.field === "monthlyLimit") {
       if (keyName === "left" || keyName === "a") {
         stepNumeric(row.providerKey, "monthlyLimit", -1);
@@ -2489,6 +2807,52 @@ export async function run(): Promise<void> {
       return;
     }
 
+    if (row.field === "dailyAllowance") {
+      if (keyName === "left" || keyName === "a") {
+        stepNumeric(row.providerKey, "dailyAllowance", -1);
+        return;
+      }
+      if (keyName === "right" || keyName === "d") {
+        stepNumeric(row.providerKey, "dailyAllowance", 1);
+        return;
+      }
+      if (["enter", "return", "e"].includes(keyName)) {
+        openNumberPrompt(row.providerKey, cfg.dailyAllowance, ["Per-day budget for the pace column, in the limit's unit", "Leave empty to split what's left of the limit evenly"], (next) => {
+          cfg.dailyAllowance = next;
+        });
+      }
+      return;
+    }
+
+    if (row.field === "cycleStartDay") {
+      if (keyName === "left" || keyName === "a") {
+        stepCycleStartDay(row.providerKey, -1);
+        return;
+      }
+      if (keyName === "right" || keyName === "d") {
+        stepCycleStartDay(row.providerKey, 1);
+        return;
+      }
+      if (["enter", "return", "e"].includes(keyName)) {
+        openNumberPrompt(row.providerKey, cfg.cycleStartDay, ["Day of the month the billing cycle resets (1-31)", "Short months reset on their last day", "Leave empty for the 1st"], (next) => {
+          cfg.cycleStartDay = typeof next === "number" && next >= 1 ? clamp(Math.round(next), 1, 31) : undefined;
+        });
+      }
+      return;
+    }
+
+    if (row.field === "cycleTimeZone" && ["enter", "return", "e"].includes(keyName)) {
+      openTextPrompt(
+        row.providerKey,
+        cfg.cycleTimeZone,
+        ["Set the IANA time zone the cycle resets in (e.g. America/New_York)", "Leave empty for UTC"],
+        (next) => {
+          cfg.cycleTimeZone = next && isValidTimeZone(next) ? next : undefined;
+        },
+      );
+      return;
+    }
+
     if (row.field === "manualUsed") {
       if (keyName === "left" || keyName === "a") {
         stepNumeric(row.providerKey, "manualUsed", -1);
@@ -2501,6 +2865,7 @@ export async function run(): Promise<void> {
       if (["enter", "return", "e"].includes(keyName)) {
         openNumberPrompt(row.providerKey, cfg.manualUsed, ["Fallback usage if provider has no live API"], (next) => {
           cfg.manualUsed = next;
+          stampManualCycle(row.providerKey);
         });
       }
       return;
@@ -2518,6 +2883,7 @@ export async function run(): Promise<void> {
       if (["enter", "return", "e"].includes(keyName)) {
         openNumberPrompt(row.providerKey, cfg.manualCost, ["Fallback cost if provider has no live API"], (next) => {
           cfg.manualCost = next;
+          stampManualCycle(row.providerKey);
         });
       }
     }
@@ -2562,7 +2928,7 @@ export async function run(): Promise<void> {
       }
 
       if (keyName === "space") {
-        state.config.agents[row.providerKey].enabled = !state.config.agents[row.providerKey].enabled;
+        getAgentConfig(state.config, row.providerKey).enabled = !getAgentConfig(state.config, row.providerKey).enabled;
         save();
         void refreshUsage("provider toggle");
       }
@@ -2581,6 +2947,7 @@ export async function run(): Promise<void> {
       "detailPaneMode",
       "dashboardMetrics",
       "showModeColumn",
+      "showPaceColumn",
       "heatmapScope",
       "heatmapProvider",
       "heatmapMetric",
@@ -2677,6 +3044,13 @@ export async function run(): Promise<void> {
       return;
     }
 
+    if (row === "showPaceColumn") {
+      if (["left", "right", "a", "d", "space", "enter", "return"].includes(keyName)) {
+        toggleShowPaceColumn();
+      }
+      return;
+    }
+
     if (row === "heatmapScope") {
       if (keyName === "left" || keyName === "a") {
         changeHeatmapScope(-1);
@@ -2871,7 +3245,54 @@ export async function run(): Promise<void> {
     if (keyName === "s") {
       state.screen = "settings";
       redraw();
+      return;
     }
+
+    if (keyName === "e") {
+      openExportPrompt();
+      return;
+    }
+
+    if (keyName === "x" && state.alerts.length > 0) {
+      state.alerts = [];
+      redraw();
+    }
+  }
+
+  function openExportPrompt(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    openAppTextPrompt(
+      "Export usage",
+      `xdist-export-${today}.csv`,
+      ["File to write (.csv or .json), relative to the current folder", "Optionally start with a date range: 2026-09-01..2026-09-30 export.csv"],
+      (next) => {
+        if (!next?.trim()) {
+          return;
+        }
+
+        // the range is a single token, so everything after it is the path, spaces included
+        const input = next.trim();
+        const first = input.split(/\s+/, 1)[0] ?? "";
+        const rangeText = /^[\d-]*\.\.[\d-]*$/.test(first) ? first : undefined;
+        const path = rangeText ? input.slice(first.length).trim() : input;
+        const range = parseDateRange(rangeText);
+        if (!range) {
+          state.statusLine = "export: range must be real dates, YYYY-MM-DD..YYYY-MM-DD, earliest first";
+          return;
+        }
+        if (!path) {
+          state.statusLine = "export: add a file name after the range";
+          return;
+        }
+
+        try {
+          writeExport(path, getEnabledProviderKeys().map((key) => getSnapshot(state.snapshots, key)), state.config, range);
+          state.statusLine = `exported ${path}`;
+        } catch (error) {
+          state.statusLine = `export failed: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      },
+    );
   }
 
   function handleGlobalKeyPress(key: KeyEvent): void {
@@ -2973,26 +3394,18 @@ function rfit(text: string, width: number): string {
   return `…${text.slice(-(width - 1))}`;
 }
 
-function formatNumber(value: number): string {
-  return Number.isInteger(value) ? value.toFixed(0) : value.toFixed(2);
-}
-
-function formatMoney(value: number | undefined): string {
-  if (typeof value !== "number" || Number.isNaN(value)) {
-    return "$0";
+function formatCountdown(ms: number): string {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  if (minutes < 60) {
+    return `${minutes}m`;
   }
 
-  const rounded = value < 10 ? value.toFixed(2) : value.toFixed(1);
-  return `$${rounded}`;
-}
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h${String(minutes % 60).padStart(2, "0")}m`;
+  }
 
-function formatClock(date: Date): string {
-  return date.toLocaleTimeString("en-GB", {
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: false,
-  });
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
 }
 
 function formatRefresh(seconds: number): string {
@@ -0,0 +1,185 @@
+import { getAgentConfig, loadConfig } from "./config";
+import { resolveBillingCycle } from "./cycle";
+import { projectLinear } from "./forecast";
+import { closeHistory } from "./history";
+import { collectSnapshots, loadCachedSnapshots, readFlag } from "./headless";
+import { PROVIDERS } from "./providers";
+import { failedAccounts } from "./snapshots";
+import type { AgentConfig, AgentKey, AgentSnapshot } from "./types";
+import { formatMoney, formatNumber } from "./ui/format";
+
+export type CheckStatus = "ok" | "warn" | "breach" | "error";
+export type CheckKind = "usage" | "projected-usage" | "cost" | "projected";
+
+export interface CheckResult {
+  provider: AgentKey;
+  label: string;
+  check: CheckKind | "fetch";
+  value: number | null;
+  limit: number | null;
+  ratio: number | null;
+  status: CheckStatus;
+  message?: string;
+}
+
+export interface CheckThresholds {
+  warnPercent: number;
+  breachPercent: number;
+}
+
+export const CHECK_EXIT_CODES: Record<CheckStatus, number> = {
+  ok: 0,
+  warn: 1,
+  breach: 2,
+  error: 3,
+};
+
+const CHECK_REPORT_VERSION = 1;
+const DEFAULT_THRESHOLDS: CheckThresholds = { warnPercent: 80, breachPercent: 100 };
+
+function classify(ratio: number, thresholds: CheckThresholds): CheckStatus {
+  if (ratio * 100 >= thresholds.breachPercent) {
+    return "breach";
+  }
+  return ratio * 100 >= thresholds.warnPercent ? "warn" : "ok";
+}
+
+// A projection is a forecast, so it can warn but never breach on its own
+function classifyProjection(ratio: number, thresholds: CheckThresholds): CheckStatus {
+  const status = classify(ratio, thresholds);
+  return status === "breach" ? "warn" : status;
+}
+
+export function evaluateSnapshot(snapshot: AgentSnapshot, cfg: AgentConfig, thresholds: CheckThresholds, now = new Date()): CheckResult[] {
+  const base = { provider: snapshot.key, label: snapshot.label };
+  if (snapshot.error) {
+    return [{ ...base, check: "fetch", value: null, limit: null, ratio: null, status: "error", message: snapshot.error }];
+  }
+
+  // the total below is short by whatever a failed account used, so each one fails the check on its own
+  const results: CheckResult[] = failedAccounts(snapshot).map(({ account, error }) => ({
+    ...base,
+    label: `${snapshot.label} (${account})`,
+    check: "fetch",
+    value: null,
+    limit: null,
+    ratio: null,
+    status: "error",
+    message: error,
+  }));
+  const cycle = resolveBillingCycle(cfg, now);
+
+  if (cfg.billingMode === "quota" && typeof cfg.monthlyLimit === "number" && cfg.monthlyLimit > 0) {
+    const ratio = snapshot.used / cfg.monthlyLimit;
+    results.push({ ...base, check: "usage", value: snapshot.used, limit: cfg.monthlyLimit, ratio, status: classify(ratio, thresholds) });
+
+    const projected = projectLinear(snapshot.used, cycle, now);
+    const projectedRatio = projected / cfg.monthlyLimit;
+    results.push({
+      ...base,
+      check: "projected-usage",
+      value: projected,
+      limit: cfg.monthlyLimit,
+      ratio: projectedRatio,
+      status: classifyProjection(projectedRatio, thresholds),
+    });
+  }
+
+  const costLimit = cfg.costLimit ?? snapshot.costLimit;
+  if (typeof costLimit === "number" && costLimit > 0) {
+    const cost = snapshot.cost ?? 0;
+    const ratio = cost / costLimit;
+    results.push({ ...base, check: "cost", value: cost, limit: costLimit, ratio, status: classify(ratio, thresholds) });
+
+    const projected = projectLinear(cost, cycle, now);
+    const projectedRatio = projected / costLimit;
+    results.push({
+      ...base,
+      check: "projected",
+      value: projected,
+      limit: costLimit,
+      ratio: projectedRatio,
+      status: classifyProjection(projectedRatio, thresholds),
+    });
+  }
+
+  return results;
+}
+
+// Breach wins over a failed fetch (we know it's over budget), which wins over a warning
+export function overallStatus(results: CheckResult[]): CheckStatus {
+  for (const status of ["breach", "error", "warn"] as const) {
+    if (results.some((result) => result.status === status)) {
+      return status;
+    }
+  }
+  return "ok";
+}
+
+function formatCheckValue(result: CheckResult, value: number | null, unit: string): string {
+  if (value === null) {
+    return "-";
+  }
+  return result.check === "usage" || result.check === "projected-usage" ? `${formatNumber(Math.round(value * 100) / 100)}${unit === "req" ? "" : unit}` : formatMoney(value);
+}
+
+function renderTable(results: CheckResult[], snapshots: AgentSnapshot[]): string {
+  const unitFor = (key: AgentKey) => snapshots.find((snapshot) => snapshot.key === key)?.unit ?? "req";
+  const rows = [
+    ["Provider", "Check", "Value", "Limit", "%", "Status"],
+    ...results.map((result) => [
+      result.label,
+      result.check,
+      result.check === "fetch" ? (result.message ?? "") : formatCheckValue(result, result.value, unitFor(result.provider)),
+      formatCheckValue(result, result.limit, unitFor(result.provider)),
+      result.ratio === null ? "-" : `${Math.round(result.ratio * 100)}%`,
+      result.status.toUpperCase(),
+    ]),
+  ];
+
+  const widths = rows[0]?.map((_, column) => Math.max(...rows.map((row) => row[column]?.length ?? 0))) ?? [];
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join("  ").trimEnd()).join("\n");
+}
+
+export async function runCheck(args: string[]): Promise<number> {
+  const config = loadConfig();
+  const warnPercent = Number(readFlag(args, "warn") ?? DEFAULT_THRESHOLDS.warnPercent);
+  const breachPercent = Number(readFlag(args, "breach") ?? DEFAULT_THRESHOLDS.breachPercent);
+  if (!Number.isFinite(warnPercent) || !Number.isFinite(breachPercent) || warnPercent > breachPercent) {
+    process.stderr.write("check: --warn and --breach must be numbers with warn <= breach\n");
+    return CHECK_EXIT_CODES.error;
+  }
+
+  const only = readFlag(args, "provider")?.split(",").map((key) => key.trim()).filter(Boolean);
+  // a typo must not pass the gate by checking nothing
+  for (const key of only ?? []) {
+    if (!PROVIDERS.some((provider) => provider.key === key)) {
+      process.stderr.write(`check: unknown provider "${key}" (known: ${PROVIDERS.map((provider) => provider.key).join(", ")})\n`);
+      return CHECK_EXIT_CODES.error;
+    }
+    if (!getAgentConfig(config, key).enabled) {
+      process.stderr.write(`check: provider "${key}" is not enabled\n`);
+      return CHECK_EXIT_CODES.error;
+    }
+  }
+
+  const maxAge = readFlag(args, "max-age");
+  const allSnapshots = maxAge !== undefined ? await loadCachedSnapshots(config, Number(maxAge) || 0) : await collectSnapshots(config);
+  closeHistory();
+
+  const snapshots = only ? allSnapshots.filter((snapshot) => only.includes(snapshot.key)) : allSnapshots;
+  const now = new Date();
+  const thresholds = { warnPercent, breachPercent };
+  const results = snapshots.flatMap((snapshot) => evaluateSnapshot(snapshot, getAgentConfig(config, snapshot.key), thresholds, now));
+  const status = overallStatus(results);
+
+  if (args.includes("--json")) {
+    const report = { version: CHECK_REPORT_VERSION, generatedAt: now.toISOString(), status, thresholds, results };
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${results.length > 0 ? renderTable(results, snapshots) : "No provider has a limit to check."}\n`);
+    process.stdout.write(`\nOverall: ${status.toUpperCase()}\n`);
+  }
+
+  return CHECK_EXIT_CODES[status];
+}
@@ -1,33 +1,54 @@
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { z } from "zod";
-import type { AgentConfig, AgentKey, AppConfig, BarStyle, BillingMode } from "./types";
-
-const AGENT_KEYS: AgentKey[] = [
-  "github-copilot",
-  "codex",
-  "claude",
-  "zai",
-  "minimax",
-  "vercel-ai",
-  "ollama",
-  "openrouter",
-  "cursor",
-  "antigravity",
-  "opencode",
-];
-
-const agentConfigSchema = z.object({
+import { isValidTimeZone } from "./cycle";
+import { getProvider, PROVIDERS } from "./providers";
+import type { AgentConfig, AgentKey, AgentProvider, AppConfig, BarStyle, BillingMode, ProviderEnvFields } from "./types";
+
+const accountFieldsSchema = z.object({
   enabled: z.boolean(),
   billingMode: z.enum(["quota", "payg"]),
+  source: z.enum(["api", "local"]).optional(),
   accentColor: z.string().optional(),
   token: z.string().optional(),
   apiKey: z.string().optional(),
   username: z.string().optional(),
+  baseUrl: z.string().optional(),
+  dataDir: z.string().optional(),
+  lookbackDays: z.number().int().min(1).max(364).optional(),
   monthlyLimit: z.number().positive().optional(),
   costLimit: z.number().positive().optional(),
   manualUsed: z.number().nonnegative().optional(),
   manualCost: z.number().nonnegative().optional(),
+  manualCycle: z.string().optional(),
+  cycleStartDay: z.number().int().min(1).max(31).optional(),
+  cycleTimeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  limitWindows: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        kind: z.enum(["rolling", "weekly", "monthly"]),
+        hours: z.number().positive().max(24 * 31).optional(),
+        limit: z.number().positive().optional(),
+        costLimit: z.number().positive().optional(),
+      }),
+    )
+    .optional(),
+  alerts: z
+    .array(
+      z.object({
+        kind: z.enum(["usage", "cost", "spike"]),
+        threshold: z.number().positive(),
+      }),
+    )
+    .optional(),
+  dailyAllowance: z.number().positive().optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+const agentConfigSchema = accountFieldsSchema.extend({
+  accounts: z.array(accountFieldsSchema.partial().extend({ name: z.string().min(1) })).optional(),
+  rollupAccounts: z.boolean().optional(),
 });
 
 const barStyleSchema = z.enum(["solid", "shaded", "ascii", "dots", "pipe", "braille"]);
@@ -38,20 +59,9 @@ const appConfigSchema = z.object({
   barStyle: barStyleSchema,
   dashboardMetrics: z.enum(["req", "cost", "both"]).optional(),
   showModeColumn: z.boolean().optional(),
+  showPaceColumn: z.boolean().optional(),
   heatmapScope: z.enum(["focused", "provider", "total"]).optional(),
-  heatmapProvider: z.enum([
-    "github-copilot",
-    "codex",
-    "claude",
-    "zai",
-    "minimax",
-    "vercel-ai",
-    "ollama",
-    "openrouter",
-    "cursor",
-    "antigravity",
-    "opencode",
-  ]).optional(),
+  heatmapProvider: z.string().optional(),
   heatmapMetric: z.enum(["req", "cost"]).optional(),
   heatmapChars: z.string().optional(),
   heatmapCellWidth: z.number().int().min(1).max(4).optional(),
@@ -59,33 +69,27 @@ const appConfigSchema = z.object({
   heatmapPaletteSteps: z.number().int().min(2).max(9).optional(),
   heatmapMaxDays: z.number().int().min(7).max(364).optional(),
   decimalPlaces: z.number().int().min(0).max(4).optional(),
-  selectedAgent: z.enum([
-    "github-copilot",
-    "codex",
-    "claude",
-    "zai",
-    "minimax",
-    "vercel-ai",
-    "ollama",
-    "openrouter",
-    "cursor",
-    "antigravity",
-    "opencode",
-  ]),
-  agents: z.object({
-    "github-copilot": agentConfigSchema,
-    codex: agentConfigSchema,
-    claude: agentConfigSchema,
-    zai: agentConfigSchema,
-    minimax: agentConfigSchema,
-    "vercel-ai": agentConfigSchema,
-    ollama: agentConfigSchema,
-    openrouter: agentConfigSchema,
-    cursor: agentConfigSchema,
-    antigravity: agentConfigSchema,
-    opencode: agentConfigSchema,
-  }),
+  selectedAgent: z.string(),
+  agents: z.record(z.string(), agentConfigSchema),
   detailPaneMode: z.enum(["sidebar", "bottom", "hidden"]).optional(),
+  serveHost: z.string().optional(),
+  servePort: z.number().int().min(0).max(65535).optional(),
+  alertActions: z.array(z.enum(["banner", "notify", "hook"])).optional(),
+  alertNotifyCommand: z.string().optional(),
+  alertHook: z.string().optional(),
+  webhooks: z
+    .array(
+      z.object({
+        url: z.string().url(),
+        format: z.enum(["slack", "discord", "generic"]),
+        events: z.array(z.enum(["alert", "digest"])).optional(),
+        digestHour: z.number().int().min(0).max(23).optional(),
+        retries: z.number().int().min(0).max(10).optional(),
+      }),
+    )
+    .optional(),
+  gitRepos: z.array(z.string()).optional(),
+  gitAuthorEmails: z.array(z.string()).optional(),
 });
 
 const CONFIG_FILE = ".usage-limits.config.json";
@@ -101,6 +105,26 @@ function defaultAgentConfig(mode: BillingMode, enabled: boolean): AgentConfig {
   };
 }
 
+function providerDefaultConfig(provider: AgentProvider): AgentConfig {
+  return { ...defaultAgentConfig(provider.defaultBillingMode, provider.enabledByDefault ?? false), ...provider.defaultConfig };
+}
+
+// Options are checked per provider at fetch time, so one bad entry marks that provider instead of rejecting the file
+export function validateProviderOptions(provider: AgentProvider, cfg: AgentConfig): string | undefined {
+  const result = cfg.options && provider.optionsSchema?.safeParse(cfg.options);
+  if (!result || result.success) {
+    return undefined;
+  }
+
+  const issue = result.error.issues[0];
+  return `invalid options${issue ? ` (${["options", ...issue.path].join(".")}: ${issue.message})` : ""}`;
+}
+
+// loadConfig fills in every registered provider; this covers providers registered after it ran
+export function getAgentConfig(config: AppConfig, key: AgentKey): AgentConfig {
+  return (config.agents[key] ??= providerDefaultConfig(getProvider(key)));
+}
+
 export function defaultConfig(): AppConfig {
   const defaultBarStyle: BarStyle = "solid";
 
@@ -110,6 +134,7 @@ export function defaultConfig(): AppConfig {
     barStyle: defaultBarStyle,
     dashboardMetrics: "both",
     showModeColumn: true,
+    showPaceColumn: true,
     heatmapScope: "focused",
     heatmapProvider: "github-copilot",
     heatmapMetric: "req",
@@ -121,19 +146,7 @@ export function defaultConfig(): AppConfig {
     decimalPlaces: 0,
     selectedAgent: "github-copilot",
     detailPaneMode: "sidebar",
-    agents: {
-      "github-copilot": { ...defaultAgentConfig("quota", true), monthlyLimit: 500 },
-      codex: defaultAgentConfig("quota", false),
-      claude: defaultAgentConfig("quota", false),
-      zai: defaultAgentConfig("quota", false),
-      minimax: defaultAgentConfig("quota", false),
-      "vercel-ai": defaultAgentConfig("payg", false),
-      ollama: defaultAgentConfig("payg", false),
-      openrouter: defaultAgentConfig("payg", false),
-      cursor: defaultAgentConfig("payg", false),
-      antigravity: defaultAgentConfig("payg", false),
-      opencode: defaultAgentConfig("payg", false),
-    },
+    agents: Object.fromEntries(PROVIDERS.map((provider) => [provider.key, providerDefaultConfig(provider)])),
   };
 }
 
@@ -152,22 +165,15 @@ function trimOrUndefined(value: string | undefined): string | undefined {
 
 function applyEnvironmentOverrides(config: AppConfig): AppConfig {
   const next = structuredClone(config);
+  const read = (name: string) => trimOrUndefined(Bun.env[name]);
 
-  next.agents["github-copilot"].token ??= trimOrUndefined(Bun.env.GITHUB_TOKEN);
-  const githubUsername = trimOrUndefined(Bun.env.GITHUB_USERNAME);
-  const githubOrg = trimOrUndefined(Bun.env.GITHUB_ORG);
-  next.agents["github-copilot"].username ??= githubUsername ?? (githubOrg ? `org:${githubOrg}` : undefined);
-
-  next.agents.codex.apiKey ??= trimOrUndefined(Bun.env.OPENAI_API_KEY);
-  next.agents.claude.apiKey ??= trimOrUndefined(Bun.env.ANTHROPIC_API_KEY);
-  next.agents.zai.apiKey ??= trimOrUndefined(Bun.env.ZAI_API_KEY);
-  next.agents.minimax.apiKey ??= trimOrUndefined(Bun.env.MINIMAX_API_KEY);
-  next.agents["vercel-ai"].apiKey ??= trimOrUndefined(Bun.env.VERCEL_AI_GATEWAY_API_KEY);
-  next.agents.ollama.apiKey ??= trimOrUndefined(Bun.env.OLLAMA_API_KEY);
-  next.agents.openrouter.apiKey ??= trimOrUndefined(Bun.env.OPENROUTER_API_KEY);
-  next.agents.cursor.apiKey ??= trimOrUndefined(Bun.env.CURSOR_API_KEY);
-  next.agents.antigravity.apiKey ??= trimOrUndefined(Bun.env.ANTIGRAVITY_API_KEY);
-  next.agents.opencode.apiKey ??= trimOrUndefined(Bun.env.OPENCODE_API_KEY);
+  for (const provider of PROVIDERS) {
+    const cfg = getAgentConfig(next, provider.key);
+    const fromEnv = provider.fromEnv?.(read) ?? {};
+    for (const field of Object.keys(fromEnv) as Array<keyof ProviderEnvFields>) {
+      cfg[field] ??= fromEnv[field];
+    }
+  }
 
   return next;
 }
@@ -175,10 +181,24 @@ function applyEnvironmentOverrides(config: AppConfig): AppConfig {
 function ensureAllAgents(config: AppConfig): AppConfig {
   const next = structuredClone(config);
 
-  for (const key of AGENT_KEYS) {
-    if (!next.agents[key]) {
-      next.agents[key] = defaultAgentConfig("quota", false);
-    }
+  for (const provider of PROVIDERS) {
+    getAgentConfig(next, provider.key);
+  }
+
+  return next;
+}
+
+// The selected and heatmap providers may name a plugin that failed to load; fall back instead of crashing on the key
+function ensureKnownProviders(config: AppConfig): AppConfig {
+  const next = structuredClone(config);
+  const isRegistered = (key: string | undefined) => PROVIDERS.some((provider) => provider.key === key);
+  const fallback = PROVIDERS.find((provider) => getAgentConfig(next, provider.key).enabled)?.key ?? defaultConfig().selectedAgent;
+
+  if (!isRegistered(next.selectedAgent)) {
+    next.selectedAgent = fallback;
+  }
+  if (next.heatmapProvider !== undefined && !isRegistered(next.heatmapProvider)) {
+    next.heatmapProvider = fallback;
   }
 
   return next;
@@ -205,11 +225,10 @@ export function loadConfig(): AppConfig {
       },
     };
     const validated = appConfigSchema.parse(merged);
-    return applyEnvironmentOverrides(ensureAllAgents(validated));
+    return applyEnvironmentOverrides(ensureKnownProviders(ensureAllAgents(validated)));
   } catch {
-    const fallback = applyEnvironmentOverrides(defaultConfig());
-    saveConfig(fallback);
-    return fallback;
+    // the broken file is left alone so its tokens survive until it's fixed
+    return applyEnvironmentOverrides(defaultConfig());
   }
 }
 
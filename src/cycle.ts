@@ -0,0 +1,120 @@
+import type { AgentConfig } from "./types";
+
+const DAY_MS = 86400000;
+
+export interface BillingCycle {
+  start: Date;
+  end: Date;
+  // local calendar dates (YYYY-MM-DD) in the cycle's time zone; end is exclusive
+  startKey: string;
+  endKey: string;
+  timeZone: string;
+}
+
+type CycleConfig = Pick<AgentConfig, "cycleStartDay" | "cycleTimeZone">;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(time: number, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+
+  const read = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return { year: read("year"), month: read("month") - 1, day: read("day"), hour: read("hour"), minute: read("minute"), second: read("second") };
+}
+
+function zoneOffset(time: number, timeZone: string): number {
+  const p = zonedParts(time, timeZone);
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second) - Math.floor(time / 1000) * 1000;
+}
+
+// UTC instant of local midnight; the second pass corrects for a DST change between the guess and the answer
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const guess = Date.UTC(year, month, day);
+  const first = guess - zoneOffset(guess, timeZone);
+  return guess - zoneOffset(first, timeZone);
+}
+
+// Anniversary days past the end of a short month fall back to its last day (31st -> Feb 28th)
+function cycleDayIn(year: number, month: number, startDay: number): number {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Math.min(startDay, daysInMonth);
+}
+
+function dayKey(year: number, month: number, day: number): string {
+  const d = new Date(Date.UTC(year, month, day));
+  return d.toISOString().slice(0, 10);
+}
+
+export function resolveBillingCycle(cfg: CycleConfig, now = new Date()): BillingCycle {
+  const startDay = Math.max(1, Math.min(31, Math.trunc(cfg.cycleStartDay ?? 1)));
+  const timeZone = cfg.cycleTimeZone?.trim() && isValidTimeZone(cfg.cycleTimeZone.trim()) ? cfg.cycleTimeZone.trim() : "UTC";
+
+  const local = zonedParts(now.getTime(), timeZone);
+  let year = local.year;
+  let month = local.month;
+  if (local.day < cycleDayIn(year, month, startDay)) {
+    month -= 1;
+    if (month < 0) {
+      month = 11;
+      year -= 1;
+    }
+  }
+
+  const nextYear = month === 11 ? year + 1 : year;
+  const nextMonth = (month + 1) % 12;
+  const startDate = cycleDayIn(year, month, startDay);
+  const endDate = cycleDayIn(nextYear, nextMonth, startDay);
+
+  return {
+    start: new Date(zonedMidnight(year, month, startDate, timeZone)),
+    end: new Date(zonedMidnight(nextYear, nextMonth, endDate, timeZone)),
+    startKey: dayKey(year, month, startDate),
+    endKey: dayKey(nextYear, nextMonth, endDate),
+    timeZone,
+  };
+}
+
+// Today's date (YYYY-MM-DD) in the cycle's time zone
+export function zonedDayKey(timeZone: string, now = new Date()): string {
+  const local = zonedParts(now.getTime(), timeZone);
+  return dayKey(local.year, local.month, local.day);
+}
+
+// Monday to Monday in the cycle's time zone
+export function resolveWeek(timeZone: string, now = new Date()): BillingCycle {
+  const local = zonedParts(now.getTime(), timeZone);
+  const monday = local.day - ((new Date(Date.UTC(local.year, local.month, local.day)).getUTCDay() + 6) % 7);
+
+  return {
+    start: new Date(zonedMidnight(local.year, local.month, monday, timeZone)),
+    end: new Date(zonedMidnight(local.year, local.month, monday + 7, timeZone)),
+    startKey: dayKey(local.year, local.month, monday),
+    endKey: dayKey(local.year, local.month, monday + 7),
+    timeZone,
+  };
+}
+
+export function isCalendarCycle(cfg: CycleConfig): boolean {
+  const timeZone = cfg.cycleTimeZone?.trim();
+  return (cfg.cycleStartDay ?? 1) === 1 && (!timeZone || timeZone === "UTC");
+}
+
+export function daysUntilReset(cycle: BillingCycle, now = new Date()): number {
+  return Math.max(0, Math.ceil((cycle.end.getTime() - now.getTime()) / DAY_MS));
+}
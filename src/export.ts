@@ -0,0 +1,140 @@
+import { writeFileSync } from "node:fs";
+import { getAgentConfig, loadConfig } from "./config";
+import { resolveBillingCycle } from "./cycle";
+import { closeHistory } from "./history";
+import { collectSnapshots, loadCachedSnapshots, readFlag } from "./headless";
+import { hasFetchError } from "./snapshots";
+import type { AgentSnapshot, AppConfig, DailyUsagePoint, UsageBreakdownItem } from "./types";
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+const EXPORT_VERSION = 1;
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ProviderExport {
+  key: string;
+  label: string;
+  unit: string;
+  cycle: { start: string; end: string };
+  daily: DailyUsagePoint[];
+  // model breakdown of the current billing cycle; omitted when the range doesn't touch that cycle
+  breakdown: UsageBreakdownItem[];
+}
+
+// The shape alone lets 2026-02-30 through, so the day must survive a round trip through Date
+function isCalendarDay(day: string): boolean {
+  const date = new Date(`${day}T00:00:00Z`);
+  return DAY_KEY_PATTERN.test(day) && !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === day;
+}
+
+// "2026-09-01..2026-09-30", "2026-09-01.." or "..2026-09-30"; undefined for impossible dates or a reversed range
+export function parseDateRange(value: string | undefined): ExportRange | undefined {
+  if (!value?.trim()) {
+    return {};
+  }
+
+  const [from, to] = value.trim().split("..");
+  const range: ExportRange = { from: from?.trim() || undefined, to: to?.trim() || undefined };
+  if ((range.from && !isCalendarDay(range.from)) || (range.to && !isCalendarDay(range.to))) {
+    return undefined;
+  }
+  if (range.from && range.to && range.from > range.to) {
+    return undefined;
+  }
+
+  return range;
+}
+
+export function formatFromPath(path: string): ExportFormat {
+  return path.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+function inRange(day: string, range: ExportRange): boolean {
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+function buildProviderExports(snapshots: AgentSnapshot[], config: AppConfig, range: ExportRange): ProviderExport[] {
+  return snapshots.map((snapshot) => {
+    const cycle = resolveBillingCycle(getAgentConfig(config, snapshot.key));
+    const touchesCycle = (!range.from || range.from < cycle.endKey) && (!range.to || range.to >= cycle.startKey);
+    return {
+      key: snapshot.key,
+      label: snapshot.label,
+      unit: snapshot.unit,
+      cycle: { start: cycle.startKey, end: cycle.endKey },
+      daily: snapshot.daily.filter((point) => inRange(point.day, range)),
+      breakdown: touchesCycle ? snapshot.breakdown : [],
+    };
+  });
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(providers: ProviderExport[]): string {
+  const lines = [["type", "provider", "period", "model", "used", "unit", "cost_usd"].join(",")];
+
+  for (const provider of providers) {
+    for (const point of provider.daily) {
+      lines.push(["daily", provider.key, point.day, "", point.used, provider.unit, point.cost.toFixed(4)].map(csvCell).join(","));
+    }
+    for (const item of provider.breakdown) {
+      const period = `${provider.cycle.start}..${provider.cycle.end}`;
+      lines.push(["breakdown", provider.key, period, item.label, item.used, provider.unit, item.cost.toFixed(4)].map(csvCell).join(","));
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderExport(snapshots: AgentSnapshot[], config: AppConfig, format: ExportFormat, range: ExportRange, now = new Date()): string {
+  const providers = buildProviderExports(snapshots, config, range);
+  if (format === "csv") {
+    return toCsv(providers);
+  }
+
+  const report = { version: EXPORT_VERSION, generatedAt: now.toISOString(), from: range.from ?? null, to: range.to ?? null, providers };
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+export function writeExport(path: string, snapshots: AgentSnapshot[], config: AppConfig, range: ExportRange): void {
+  writeFileSync(path, renderExport(snapshots, config, formatFromPath(path), range), "utf8");
+}
+
+export async function runExport(args: string[]): Promise<number> {
+  const config = loadConfig();
+  const out = readFlag(args, "out");
+  const format = readFlag(args, "format") ?? (out ? formatFromPath(out) : "csv");
+  if (format !== "csv" && format !== "json") {
+    process.stderr.write("export: --format must be csv or json\n");
+    return 2;
+  }
+
+  const range = parseDateRange(`${readFlag(args, "from") ?? ""}..${readFlag(args, "to") ?? ""}`);
+  if (!range) {
+    process.stderr.write("export: --from/--to must be real YYYY-MM-DD dates, with --from not after --to\n");
+    return 2;
+  }
+
+  const only = readFlag(args, "provider")?.split(",").map((key) => key.trim()).filter(Boolean);
+  const maxAge = readFlag(args, "max-age");
+  const allSnapshots = maxAge !== undefined ? await loadCachedSnapshots(config, Number(maxAge) || 0) : await collectSnapshots(config);
+  closeHistory();
+
+  const snapshots = only ? allSnapshots.filter((snapshot) => only.includes(snapshot.key)) : allSnapshots;
+  const body = renderExport(snapshots, config, format, range);
+  if (out) {
+    writeFileSync(out, body, "utf8");
+  } else {
+    process.stdout.write(body);
+  }
+
+  return snapshots.some(hasFetchError) ? 1 : 0;
+}
@@ -0,0 +1,119 @@
+import { daysUntilReset, resolveBillingCycle, zonedDayKey, type BillingCycle } from "./cycle";
+import { pickConfiguredProgress } from "./snapshots";
+import type { AgentConfig, AgentSnapshot, DailyUsagePoint } from "./types";
+
+const DAY_MS = 86400000;
+
+export function cycleElapsedFraction(cycle: BillingCycle, now = new Date()): number {
+  const length = cycle.end.getTime() - cycle.start.getTime();
+  if (length <= 0) {
+    return 1;
+  }
+
+  // count at least one day so a few early requests don't project to an absurd month
+  const elapsed = Math.max(DAY_MS, now.getTime() - cycle.start.getTime());
+  return Math.min(1, elapsed / length);
+}
+
+// Straight-line projection of a cycle-to-date total to the end of the cycle
+export function projectLinear(current: number, cycle: BillingCycle, now = new Date()): number {
+  return current / cycleElapsedFraction(cycle, now);
+}
+
+const RECENT_DAYS = 7;
+
+export interface MetricForecast {
+  current: number;
+  linear: number;
+  recent: number;
+  limit?: number;
+  // when the recent-weighted pace reaches the limit; undefined if it doesn't before the reset
+  breachAt?: Date;
+  breached: boolean;
+}
+
+export interface SnapshotForecast {
+  used: MetricForecast;
+  cost: MetricForecast;
+  // bar fill at the end of the cycle, on the recent-weighted projection
+  progress: number;
+}
+
+// Weighted average of the last complete days (yesterday counts 7x, a week ago 1x), only over days we have history for
+export function recentDailyRate(daily: DailyUsagePoint[], pick: "used" | "cost", now = new Date()): number | undefined {
+  const firstDay = daily[0]?.day;
+  if (!firstDay) {
+    return undefined;
+  }
+
+  const byDay = new Map(daily.map((point) => [point.day, point[pick]]));
+  let weighted = 0;
+  let weights = 0;
+  for (let back = 1; back <= RECENT_DAYS; back += 1) {
+    const day = new Date(now.getTime() - back * DAY_MS).toISOString().slice(0, 10);
+    if (day < firstDay) {
+      break;
+    }
+    const weight = RECENT_DAYS + 1 - back;
+    weighted += weight * (byDay.get(day) ?? 0);
+    weights += weight;
+  }
+
+  return weights > 0 ? weighted / weights : undefined;
+}
+
+function forecastMetric(current: number, limit: number | undefined, recentRate: number | undefined, cycle: BillingCycle, now: Date): MetricForecast {
+  const remainingDays = Math.max(0, (cycle.end.getTime() - now.getTime()) / DAY_MS);
+  const linear = projectLinear(current, cycle, now);
+  const rate = recentRate ?? (linear - current) / Math.max(remainingDays, 1e-9);
+  const recent = recentRate === undefined ? linear : current + recentRate * remainingDays;
+
+  const hasLimit = typeof limit === "number" && limit > 0;
+  const breached = hasLimit && current >= limit;
+  let breachAt: Date | undefined;
+  if (hasLimit && !breached && rate > 0 && recent >= limit) {
+    breachAt = new Date(now.getTime() + ((limit - current) / rate) * DAY_MS);
+  }
+
+  return { current, linear, recent, limit: hasLimit ? limit : undefined, breachAt, breached };
+}
+
+export function forecastSnapshot(snapshot: AgentSnapshot, cfg: AgentConfig, now = new Date()): SnapshotForecast {
+  const cycle = resolveBillingCycle(cfg, now);
+  const costLimit = cfg.costLimit ?? snapshot.costLimit;
+  const used = forecastMetric(snapshot.used, snapshot.limit, recentDailyRate(snapshot.daily, "used", now), cycle, now);
+  const cost = forecastMetric(snapshot.cost ?? 0, costLimit, recentDailyRate(snapshot.daily, "cost", now), cycle, now);
+
+  return {
+    used,
+    cost,
+    progress: pickConfiguredProgress(snapshot.billingMode, used.recent, snapshot.limit, cost.recent, costLimit),
+  };
+}
+
+export interface Pace {
+  metric: "used" | "cost";
+  today: number;
+  allowance: number;
+  // today's usage over the allowance: above 1 is ahead of pace, below 1 behind
+  ratio: number;
+}
+
+// Today's usage against an even split of what's left of the limit (or the configured daily allowance)
+export function computePace(snapshot: AgentSnapshot, cfg: AgentConfig, now = new Date()): Pace | undefined {
+  const costLimit = cfg.costLimit ?? snapshot.costLimit;
+  const metric = snapshot.billingMode === "quota" && typeof snapshot.limit === "number" && snapshot.limit > 0 ? "used" : typeof costLimit === "number" && costLimit > 0 ? "cost" : undefined;
+  if (!metric) {
+    return undefined;
+  }
+
+  const limit = metric === "used" ? (snapshot.limit ?? 0) : (costLimit ?? 0);
+  const current = metric === "used" ? snapshot.used : (snapshot.cost ?? 0);
+  const cycle = resolveBillingCycle(cfg, now);
+  const todayKey = zonedDayKey(cycle.timeZone, now);
+  const today = snapshot.daily.find((point) => point.day === todayKey)?.[metric] ?? 0;
+  const daysLeft = Math.max(1, daysUntilReset(cycle, now));
+  const allowance = cfg.dailyAllowance ?? Math.max(0, limit - (current - today)) / daysLeft;
+
+  return { metric, today, allowance, ratio: allowance > 0 ? today / allowance : today > 0 ? Infinity : 0 };
+}
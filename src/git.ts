@@ -0,0 +1,109 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { AppConfig } from "./types";
+
+const DAY_MS = 86400000;
+const RECORD_SEPARATOR = "\x1e";
+
+export interface CommitDay {
+  day: string; // YYYY-MM-DD (UTC, like the usage series)
+  commits: number;
+  added: number;
+  deleted: number;
+}
+
+export interface GitScan {
+  days: CommitDay[];
+  errors: string[];
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+async function git(repo: string, args: string[]): Promise<string> {
+  const child = Bun.spawn(["git", "-C", repo, ...args], { stdout: "pipe", stderr: "pipe" });
+  const [stdout, stderr, code] = await Promise.all([new Response(child.stdout).text(), new Response(child.stderr).text(), child.exited]);
+  if (code !== 0) {
+    throw new Error(stderr.trim().split("\n")[0] || `git exited with ${code}`);
+  }
+  return stdout;
+}
+
+// Commits reachable from HEAD, so "added" counts lines that made it onto the checked-out branch
+async function scanRepo(
+  repo: string,
+  emails: Set<string>,
+  sinceDay: string,
+  seen: Set<string>,
+  byDay: Map<string, CommitDay>,
+): Promise<void> {
+  const log = await git(repo, ["log", "HEAD", "--no-merges", `--since=${sinceDay}T00:00:00Z`, `--pretty=format:${RECORD_SEPARATOR}%H%x09%ae%x09%aI`, "--numstat"]);
+
+  for (const record of log.split(RECORD_SEPARATOR)) {
+    const [header, ...stats] = record.split("\n");
+    const [hash, email, date] = (header ?? "").split("\t");
+    if (!hash || !email || !date || seen.has(hash) || !emails.has(email.toLowerCase())) {
+      continue;
+    }
+
+    const time = new Date(date);
+    if (Number.isNaN(time.getTime())) {
+      continue;
+    }
+
+    seen.add(hash);
+    const day = time.toISOString().slice(0, 10);
+    const entry = byDay.get(day) ?? { day, commits: 0, added: 0, deleted: 0 };
+    entry.commits += 1;
+    for (const line of stats) {
+      // "<added>\t<deleted>\t<path>"; binary files report "-"
+      const [added, deleted] = line.split("\t");
+      entry.added += Number(added) || 0;
+      entry.deleted += Number(deleted) || 0;
+    }
+    byDay.set(day, entry);
+  }
+}
+
+// Scans every configured repository; a repository that can't be read is reported and skipped
+export async function collectCommitDays(config: AppConfig, now = new Date()): Promise<GitScan> {
+  const repos = (config.gitRepos ?? []).map((repo) => expandHome(repo.trim())).filter(Boolean);
+  const configuredEmails = (config.gitAuthorEmails ?? []).map((email) => email.trim().toLowerCase()).filter(Boolean);
+  const sinceDay = new Date(now.getTime() - (config.heatmapMaxDays ?? 364) * DAY_MS).toISOString().slice(0, 10);
+
+  const seen = new Set<string>();
+  const byDay = new Map<string, CommitDay>();
+  const errors: string[] = [];
+
+  for (const repo of repos) {
+    try {
+      const emails = new Set(configuredEmails);
+      if (emails.size === 0) {
+        const own = (await git(repo, ["config", "user.email"])).trim().toLowerCase();
+        if (!own) {
+          throw new Error("no user.email configured; set gitAuthorEmails");
+        }
+        emails.add(own);
+      }
+      await scanRepo(repo, emails, sinceDay, seen, byDay);
+    } catch (error) {
+      errors.push(`${repo}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    days: [...byDay.values()].sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0)),
+    errors,
+  };
+}
+
+export function summarizeCommits(days: CommitDay[], fromDay: string, toDay: string): { commits: number; added: number; deleted: number } {
+  return days
+    .filter((entry) => entry.day >= fromDay && entry.day <= toDay)
+    .reduce((sum, entry) => ({ commits: sum.commits + entry.commits, added: sum.added + entry.added, deleted: sum.deleted + entry.deleted }), {
+      commits: 0,
+      added: 0,
+      deleted: 0,
+    });
+}
@@ -0,0 +1,204 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getAgentConfig, loadConfig } from "./config";
+import { daysUntilReset, resolveBillingCycle } from "./cycle";
+import { closeHistory } from "./history";
+import { getProvider, PROVIDERS } from "./providers";
+import { createInitialSnapshots, getSnapshot, hasFetchError, refreshSnapshot } from "./snapshots";
+import type { AgentConfig, AgentKey, AgentSnapshot, AppConfig } from "./types";
+import { costParts, usageParts } from "./ui/format";
+
+const STATUS_CACHE_FILE = ".usage-limits.status-cache.json";
+const DEFAULT_STATUS_MAX_AGE_SECONDS = 60;
+const DEFAULT_STATUS_FORMATS = {
+  quota: "{name} {used}/{max} {percent}",
+  payg: "{name} {cost}",
+} as const;
+
+// Bump when a field is renamed or removed; adding fields keeps the version
+export const JSON_REPORT_VERSION = 1;
+
+export interface JsonProviderReport {
+  key: AgentKey;
+  label: string;
+  billingMode: AgentSnapshot["billingMode"];
+  configured: boolean;
+  unit: string;
+  used: number;
+  limit: number | null;
+  cost: number;
+  costLimit: number | null;
+  progress: number;
+  breakdown: AgentSnapshot["breakdown"];
+  daily: AgentSnapshot["daily"];
+  windows: AgentSnapshot["windows"];
+  accounts: JsonAccountReport[];
+  details: string[];
+  error: string | null;
+}
+
+export interface JsonAccountReport {
+  name: string;
+  used: number;
+  limit: number | null;
+  cost: number;
+  costLimit: number | null;
+  progress: number;
+  error: string | null;
+}
+
+export interface JsonReport {
+  version: number;
+  generatedAt: string;
+  providers: JsonProviderReport[];
+}
+
+// Fetches every enabled provider once, without the renderer
+export async function collectSnapshots(config: AppConfig = loadConfig()): Promise<AgentSnapshot[]> {
+  const snapshots = createInitialSnapshots();
+  const enabled = PROVIDERS.filter((provider) => getAgentConfig(config, provider.key).enabled);
+
+  await Promise.all(enabled.map((provider) => refreshSnapshot(provider, getAgentConfig(config, provider.key), getSnapshot(snapshots, provider.key))));
+
+  return enabled.map((provider) => {
+    const snapshot = getSnapshot(snapshots, provider.key);
+    if (!snapshot.configured && !snapshot.error) {
+      snapshot.error = "missing credentials";
+    }
+    return snapshot;
+  });
+}
+
+export function toJsonReport(snapshots: AgentSnapshot[], now = new Date()): JsonReport {
+  return {
+    version: JSON_REPORT_VERSION,
+    generatedAt: now.toISOString(),
+    providers: snapshots.map((snapshot) => ({
+      key: snapshot.key,
+      label: snapshot.label,
+      billingMode: snapshot.billingMode,
+      configured: snapshot.configured,
+      unit: snapshot.unit,
+      used: snapshot.used,
+      limit: snapshot.limit ?? null,
+      cost: snapshot.cost ?? 0,
+      costLimit: snapshot.costLimit ?? null,
+      progress: snapshot.progress,
+      breakdown: snapshot.breakdown,
+      daily: snapshot.daily,
+      windows: snapshot.windows,
+      accounts: snapshot.accounts.map((child) => ({
+        name: child.account ?? "",
+        used: child.used,
+        limit: child.limit ?? null,
+        cost: child.cost ?? 0,
+        costLimit: child.costLimit ?? null,
+        progress: child.progress,
+        error: child.error ?? null,
+      })),
+      details: snapshot.details,
+      error: snapshot.error ?? null,
+    })),
+  };
+}
+
+export async function runJson(): Promise<number> {
+  const snapshots = await collectSnapshots();
+  closeHistory();
+
+  process.stdout.write(`${JSON.stringify(toJsonReport(snapshots), null, 2)}\n`);
+  return snapshots.some(hasFetchError) ? 1 : 0;
+}
+
+// Accepts both `--name value` and `--name=value`
+export function readFlag(args: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === flag) {
+      return args[index + 1];
+    }
+    if (arg?.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+
+  return undefined;
+}
+
+interface StatusCache {
+  savedAt: number;
+  keys: AgentKey[];
+  snapshots: AgentSnapshot[];
+}
+
+function readStatusCache(path: string): StatusCache | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as StatusCache;
+  } catch {
+    return undefined;
+  }
+}
+
+// Status lines get polled every few seconds, so reuse a recent fetch instead of hitting billing APIs each time
+export async function loadCachedSnapshots(config: AppConfig, maxAgeSeconds: number, now = Date.now()): Promise<AgentSnapshot[]> {
+  const path = join(process.cwd(), STATUS_CACHE_FILE);
+  const keys = PROVIDERS.filter((provider) => getAgentConfig(config, provider.key).enabled).map((provider) => provider.key);
+  const cached = readStatusCache(path);
+
+  if (cached && now - cached.savedAt < maxAgeSeconds * 1000 && cached.keys.join(",") === keys.join(",")) {
+    return cached.snapshots;
+  }
+
+  const snapshots = await collectSnapshots(config);
+  const next: StatusCache = { savedAt: now, keys, snapshots };
+  try {
+    writeFileSync(path, `${JSON.stringify(next)}\n`, "utf8");
+  } catch {
+    // a read-only directory only costs us the cache
+  }
+
+  return snapshots;
+}
+
+export function formatStatusSegment(snapshot: AgentSnapshot, cfg: AgentConfig, template?: string): string {
+  const provider = getProvider(snapshot.key);
+  const name = provider.shortLabel ?? provider.label;
+  if (snapshot.error) {
+    return `${name} !`;
+  }
+
+  const usage = usageParts(snapshot, cfg);
+  const cost = costParts(snapshot, cfg);
+  const values: Record<string, string> = {
+    name,
+    label: provider.label,
+    used: usage.used,
+    max: usage.max,
+    percent: `${Math.round(snapshot.progress * 100)}%`,
+    cost: cost.current,
+    costMax: cost.max,
+    resets: `${daysUntilReset(resolveBillingCycle(cfg))}d`,
+  };
+
+  const format = template ?? DEFAULT_STATUS_FORMATS[cfg.billingMode];
+  return format.replace(/\{(\w+)\}/g, (match, field: string) => values[field] ?? match);
+}
+
+export async function runStatus(args: string[]): Promise<number> {
+  const config = loadConfig();
+  const maxAge = Number(readFlag(args, "max-age") ?? DEFAULT_STATUS_MAX_AGE_SECONDS);
+  const template = readFlag(args, "format");
+  const separator = readFlag(args, "separator") ?? " · ";
+
+  const snapshots = await loadCachedSnapshots(config, Number.isFinite(maxAge) && maxAge >= 0 ? maxAge : DEFAULT_STATUS_MAX_AGE_SECONDS);
+  closeHistory();
+
+  const line = snapshots.map((snapshot) => formatStatusSegment(snapshot, getAgentConfig(config, snapshot.key), template)).join(separator);
+  process.stdout.write(`${line}\n`);
+  return 0;
+}
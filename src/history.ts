@@ -0,0 +1,261 @@
+import { Database } from "bun:sqlite";
+import { join } from "node:path";
+import type { DailyUsagePoint, UsageBreakdownItem, UsageResult } from "./types";
+
+const HISTORY_FILE = ".usage-limits.history.sqlite";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS daily (
+  provider TEXT NOT NULL,
+  day TEXT NOT NULL,
+  used REAL NOT NULL,
+  cost REAL NOT NULL,
+  PRIMARY KEY (provider, day)
+);
+CREATE TABLE IF NOT EXISTS breakdown (
+  provider TEXT NOT NULL,
+  cycle TEXT NOT NULL,
+  label TEXT NOT NULL,
+  used REAL NOT NULL,
+  cost REAL NOT NULL,
+  PRIMARY KEY (provider, cycle, label)
+);
+CREATE TABLE IF NOT EXISTS snapshots (
+  provider TEXT NOT NULL,
+  day TEXT NOT NULL,
+  cycle TEXT NOT NULL,
+  used REAL NOT NULL,
+  cost REAL NOT NULL,
+  limit_value REAL,
+  unit TEXT NOT NULL,
+  fetched_at TEXT NOT NULL,
+  PRIMARY KEY (provider, day)
+);
+CREATE TABLE IF NOT EXISTS months (
+  provider TEXT NOT NULL,
+  month TEXT NOT NULL,
+  final INTEGER NOT NULL,
+  fetched_at TEXT NOT NULL,
+  PRIMARY KEY (provider, month)
+);
+CREATE TABLE IF NOT EXISTS alerts (
+  provider TEXT NOT NULL,
+  period TEXT NOT NULL,
+  rule TEXT NOT NULL,
+  fired_at TEXT NOT NULL,
+  PRIMARY KEY (provider, period, rule)
+);
+`;
+
+export interface SnapshotRecord {
+  day: string;
+  cycle: string;
+  used: number;
+  cost: number;
+  limit?: number;
+  unit: string;
+  fetchedAt: string;
+}
+
+// undefined = not opened yet, null = unavailable (e.g. read-only directory); history is best-effort
+let db: Database | null | undefined;
+
+export function getHistoryPath(): string {
+  return join(process.cwd(), HISTORY_FILE);
+}
+
+function getDb(): Database | null {
+  if (db !== undefined) {
+    return db;
+  }
+
+  try {
+    db = new Database(getHistoryPath(), { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec(SCHEMA);
+  } catch {
+    db = null;
+  }
+
+  return db;
+}
+
+export function closeHistory(): void {
+  db?.close();
+  db = undefined;
+}
+
+function dayRange(points: DailyUsagePoint[]): { from: string; to: string } | undefined {
+  const days = points.map((point) => point.day).sort();
+  const from = days[0];
+  const to = days[days.length - 1];
+  return from && to ? { from, to } : undefined;
+}
+
+export function recordUsage(provider: string, cycle: string, usage: UsageResult, now = new Date()): void {
+  const store = getDb();
+  if (!store) {
+    return;
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const upsertDaily = store.prepare("INSERT OR REPLACE INTO daily (provider, day, used, cost) VALUES (?, ?, ?, ?)");
+  const clearDaily = store.prepare("DELETE FROM daily WHERE provider = ? AND day >= ? AND day <= ?");
+  const clearBreakdown = store.prepare("DELETE FROM breakdown WHERE provider = ? AND cycle = ?");
+  const insertBreakdown = store.prepare("INSERT OR REPLACE INTO breakdown (provider, cycle, label, used, cost) VALUES (?, ?, ?, ?, ?)");
+  const upsertSnapshot = store.prepare(
+    "INSERT OR REPLACE INTO snapshots (provider, day, cycle, used, cost, limit_value, unit, fetched_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+  );
+
+  const range = dayRange(usage.daily ?? []);
+  store.transaction(() => {
+    // a day the provider no longer reports inside the range it returned had no usage after all
+    if (range) {
+      clearDaily.run(provider, range.from, range.to);
+    }
+    for (const point of usage.daily ?? []) {
+      upsertDaily.run(provider, point.day, point.used, point.cost);
+    }
+
+    if (usage.breakdown) {
+      clearBreakdown.run(provider, cycle);
+      for (const item of usage.breakdown) {
+        insertBreakdown.run(provider, cycle, item.label, item.used, item.cost);
+      }
+    }
+
+    upsertSnapshot.run(provider, today, cycle, usage.used, usage.cost ?? 0, usage.limit ?? null, usage.unit, now.toISOString());
+  })();
+}
+
+export function recordDaily(provider: string, points: DailyUsagePoint[]): void {
+  const store = getDb();
+  if (!store) {
+    return;
+  }
+
+  const upsert = store.prepare("INSERT OR REPLACE INTO daily (provider, day, used, cost) VALUES (?, ?, ?, ?)");
+  store.transaction(() => {
+    for (const point of points) {
+      upsert.run(provider, point.day, point.used, point.cost);
+    }
+  })();
+}
+
+export function loadDaily(provider: string, fromDay = "0000-00-00", toDay = "9999-99-99"): DailyUsagePoint[] {
+  const store = getDb();
+  if (!store) {
+    return [];
+  }
+
+  return store
+    .query<DailyUsagePoint, [string, string, string]>("SELECT day, used, cost FROM daily WHERE provider = ? AND day >= ? AND day <= ? ORDER BY day")
+    .all(provider, fromDay, toDay);
+}
+
+export function loadBreakdown(provider: string, cycle: string): UsageBreakdownItem[] {
+  const store = getDb();
+  if (!store) {
+    return [];
+  }
+
+  return store
+    .query<UsageBreakdownItem, [string, string]>("SELECT label, used, cost FROM breakdown WHERE provider = ? AND cycle = ? ORDER BY used DESC")
+    .all(provider, cycle);
+}
+
+export function loadSnapshots(provider: string): SnapshotRecord[] {
+  const store = getDb();
+  if (!store) {
+    return [];
+  }
+
+  const rows = store
+    .query<{ day: string; cycle: string; used: number; cost: number; limit_value: number | null; unit: string; fetched_at: string }, [string]>(
+      "SELECT day, cycle, used, cost, limit_value, unit, fetched_at FROM snapshots WHERE provider = ? ORDER BY day",
+    )
+    .all(provider);
+
+  return rows.map((row) => ({
+    day: row.day,
+    cycle: row.cycle,
+    used: row.used,
+    cost: row.cost,
+    limit: row.limit_value ?? undefined,
+    unit: row.unit,
+    fetchedAt: row.fetched_at,
+  }));
+}
+
+// Day-over-day growth of the cycle totals. The first snapshot of a cycle only counts when it was
+// taken on the cycle's first day, otherwise usage from before we started watching would land on one day.
+function deriveDailyFromSnapshots(snapshots: SnapshotRecord[]): DailyUsagePoint[] {
+  const points: DailyUsagePoint[] = [];
+  let previous: SnapshotRecord | undefined;
+
+  for (const snapshot of snapshots) {
+    if (previous && previous.cycle === snapshot.cycle) {
+      points.push({ day: snapshot.day, used: Math.max(0, snapshot.used - previous.used), cost: Math.max(0, snapshot.cost - previous.cost) });
+    } else if (snapshot.day === snapshot.cycle) {
+      points.push({ day: snapshot.day, used: snapshot.used, cost: snapshot.cost });
+    }
+    previous = snapshot;
+  }
+
+  return points;
+}
+
+// Stored daily points with gaps filled from snapshot totals; a fresh fetch replaces the whole range of days it covers
+export function loadDailyHistory(provider: string, fresh: DailyUsagePoint[] = []): DailyUsagePoint[] {
+  const byDay = new Map<string, DailyUsagePoint>();
+  const range = dayRange(fresh);
+  const outsideFresh = (point: DailyUsagePoint) => !range || point.day < range.from || point.day > range.to;
+
+  for (const point of deriveDailyFromSnapshots(loadSnapshots(provider)).filter(outsideFresh)) {
+    byDay.set(point.day, point);
+  }
+  for (const point of loadDaily(provider).filter(outsideFresh)) {
+    byDay.set(point.day, point);
+  }
+  for (const point of fresh) {
+    byDay.set(point.day, point);
+  }
+
+  return [...byDay.values()].sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+}
+
+export function isMonthFinal(provider: string, month: string): boolean {
+  const store = getDb();
+  if (!store) {
+    return false;
+  }
+
+  const row = store
+    .query<{ final: number }, [string, string]>("SELECT final FROM months WHERE provider = ? AND month = ?")
+    .get(provider, month);
+  return row?.final === 1;
+}
+
+export function markMonthFetched(provider: string, month: string, final: boolean, now = new Date()): void {
+  getDb()
+    ?.prepare("INSERT OR REPLACE INTO months (provider, month, final, fetched_at) VALUES (?, ?, ?, ?)")
+    .run(provider, month, final ? 1 : 0, now.toISOString());
+}
+
+export function hasAlertFired(provider: string, period: string, rule: string): boolean {
+  const store = getDb();
+  if (!store) {
+    return false;
+  }
+
+  const row = store
+    .query<{ fired_at: string }, [string, string, string]>("SELECT fired_at FROM alerts WHERE provider = ? AND period = ? AND rule = ?")
+    .get(provider, period, rule);
+  return Boolean(row);
+}
+
+export function markAlertFired(provider: string, period: string, rule: string, now = new Date()): void {
+  getDb()
+    ?.prepare("INSERT OR REPLACE INTO alerts (provider, period, rule, fired_at) VALUES (?, ?, ?, ?)")
+    .run(provider, period, rule, now.toISOString());
+}
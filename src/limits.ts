@@ -0,0 +1,100 @@
+import { resolveWeek, type BillingCycle } from "./cycle";
+import type { DailyUsagePoint, LimitWindowConfig, LimitWindowUsage, UsageSample } from "./types";
+
+const HOUR_MS = 3600000;
+const DEFAULT_ROLLING_HOURS = 5;
+
+export function samplesFromDaily(daily: DailyUsagePoint[] | undefined): UsageSample[] {
+  return (daily ?? []).map((point) => ({ timestamp: `${point.day}T00:00:00Z`, used: point.used, cost: point.cost }));
+}
+
+function sortedSamples(samples: UsageSample[]): Array<UsageSample & { time: number }> {
+  return samples
+    .map((sample) => ({ ...sample, time: new Date(sample.timestamp).getTime() }))
+    .filter((sample) => Number.isFinite(sample.time))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Session-style windows: a block opens at the hour of the first sample after the previous
+// block expired and lasts N hours, which is how 5-hour subscription limits behave.
+function rollingBounds(hours: number, samples: Array<{ time: number }>, now: number): { start: number; end: number } | undefined {
+  const length = hours * HOUR_MS;
+  let blockStart: number | undefined;
+
+  for (const sample of samples) {
+    if (sample.time > now) {
+      break;
+    }
+    if (blockStart === undefined || sample.time >= blockStart + length) {
+      blockStart = Math.floor(sample.time / HOUR_MS) * HOUR_MS;
+    }
+  }
+
+  if (blockStart === undefined || now >= blockStart + length) {
+    return undefined;
+  }
+
+  return { start: blockStart, end: blockStart + length };
+}
+
+function progressFor(used: number, limit: number | undefined, cost: number, costLimit: number | undefined): number {
+  if (typeof limit === "number" && limit > 0) {
+    return Math.max(0, Math.min(1, used / limit));
+  }
+
+  if (typeof costLimit === "number" && costLimit > 0) {
+    return Math.max(0, Math.min(1, cost / costLimit));
+  }
+
+  return 0;
+}
+
+// Weekly and monthly windows follow the billing cycle's time zone, and monthly ones the cycle itself. Samples built from
+// daily totals carry midnight timestamps, so they're matched to those periods by calendar day, and can't place a
+// rolling window at all.
+export function computeLimitWindows(
+  windows: LimitWindowConfig[],
+  samples: UsageSample[],
+  perRequest: boolean,
+  cycle: BillingCycle,
+  now = new Date(),
+): LimitWindowUsage[] {
+  const sorted = sortedSamples(samples);
+  const nowMs = now.getTime();
+
+  return windows.map((window) => {
+    if (window.kind === "rolling" && !perRequest) {
+      return { name: window.name, kind: window.kind, used: 0, limit: window.limit, cost: 0, costLimit: window.costLimit, progress: 0, unsupported: true };
+    }
+
+    const period = window.kind === "weekly" ? resolveWeek(cycle.timeZone, now) : window.kind === "monthly" ? cycle : undefined;
+    const bounds = period ? { start: period.start.getTime(), end: period.end.getTime() } : rollingBounds(window.hours ?? DEFAULT_ROLLING_HOURS, sorted, nowMs);
+    const inWindow = (sample: UsageSample & { time: number }) => {
+      if (period && !perRequest) {
+        const day = sample.timestamp.slice(0, 10);
+        return day >= period.startKey && day < period.endKey;
+      }
+      return bounds !== undefined && sample.time >= bounds.start && sample.time < bounds.end;
+    };
+
+    let used = 0;
+    let cost = 0;
+    for (const sample of sorted) {
+      if (inWindow(sample)) {
+        used += sample.used;
+        cost += sample.cost;
+      }
+    }
+
+    return {
+      name: window.name,
+      kind: window.kind,
+      used,
+      limit: window.limit,
+      cost,
+      costLimit: window.costLimit,
+      progress: progressFor(used, window.limit, cost, window.costLimit),
+      resetsAt: bounds ? new Date(bounds.end).toISOString() : undefined,
+    };
+  });
+}
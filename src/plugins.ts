@@ -0,0 +1,228 @@
+import { existsSync, readdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import { registerProvider } from "./providers";
+import type { AgentProvider, ProviderSettingField, UsageResult } from "./types";
+
+const PLUGIN_EXTENSIONS = [".ts", ".js", ".mjs"];
+const IMPORT_TIMEOUT_MS = 10000;
+const FETCH_TIMEOUT_MS = 60000;
+
+const isFunction = (value: unknown) => typeof value === "function";
+// Plugins may bundle their own copy of zod, so schemas are recognised by shape rather than instanceof
+const isZodSchema = (value: unknown) => isFunction((value as { safeParse?: unknown } | undefined)?.safeParse);
+
+const SETTING_FIELDS = [
+  "enabled",
+  "billingMode",
+  "source",
+  "credential",
+  "accentColor",
+  "username",
+  "baseUrl",
+  "dataDir",
+  "lookbackDays",
+  "monthlyLimit",
+  "costLimit",
+  "dailyAllowance",
+  "cycleStartDay",
+  "cycleTimeZone",
+  "manualUsed",
+  "manualCost",
+] as const satisfies readonly ProviderSettingField[];
+
+// Every field the app reads from a provider is checked here, so a malformed plugin fails to load instead of breaking a screen
+const pluginModuleSchema = z.object({
+  provider: z.looseObject({
+    key: z.string(),
+    label: z.string().min(1),
+    fetchUsage: z.custom<AgentProvider["fetchUsage"]>(isFunction, "fetchUsage must be a function"),
+    shortLabel: z.string().min(1).optional(),
+    accent: z.string().optional(),
+    description: z.string().optional(),
+    supportsLiveFetch: z.boolean().optional(),
+    credentialName: z.enum(["token", "apiKey"]).optional(),
+    credentialInstructions: z.array(z.string()).optional(),
+    sources: z.array(z.enum(["api", "local"])).min(1).optional(),
+    isConfigured: z.custom<AgentProvider["isConfigured"]>(isFunction, "isConfigured must be a function").optional(),
+    defaultBillingMode: z.enum(["quota", "payg"]).optional(),
+    enabledByDefault: z.boolean().optional(),
+    defaultConfig: z.looseObject({}).optional(),
+    fromEnv: z.custom<NonNullable<AgentProvider["fromEnv"]>>(isFunction, "fromEnv must be a function").optional(),
+    optionsSchema: z.custom<z.ZodType>(isZodSchema, "optionsSchema must be a zod schema").optional(),
+    settingsFields: z.array(z.enum(SETTING_FIELDS)).optional(),
+  }),
+  configSchema: z.custom<z.ZodType>(isZodSchema, "configSchema must be a zod schema").optional(),
+});
+
+const pointSchema = z.object({ day: z.string(), used: z.number().finite(), cost: z.number().finite() });
+
+// A plugin's result is checked before it reaches a snapshot, so bad data shows up as a fetch error instead of a broken render
+const usageResultSchema = z.object({
+  used: z.number().finite(),
+  limit: z.number().positive().optional(),
+  unit: z.string().default("req"),
+  cost: z.number().finite().optional(),
+  costLimit: z.number().positive().optional(),
+  details: z.array(z.string()).default([]),
+  breakdown: z.array(z.object({ label: z.string(), used: z.number().finite(), cost: z.number().finite() })).optional(),
+  daily: z.array(pointSchema).optional(),
+  samples: z.array(z.object({ timestamp: z.string(), used: z.number().finite(), cost: z.number().finite() })).optional(),
+  windows: z
+    .array(
+      z.object({
+        name: z.string(),
+        kind: z.enum(["rolling", "weekly", "monthly"]),
+        used: z.number().finite(),
+        limit: z.number().optional(),
+        cost: z.number().finite(),
+        costLimit: z.number().optional(),
+        progress: z.number().finite(),
+        resetsAt: z.string().optional(),
+        unsupported: z.boolean().optional(),
+      }),
+    )
+    .optional(),
+  fetchedMonths: z.number().optional(),
+});
+
+const loadErrors: string[] = [];
+
+// A per-user directory rather than the working directory, so running xdist inside a cloned repo never executes its code
+export function getPluginsDir(): string {
+  const configHome = Bun.env.XDG_CONFIG_HOME?.trim() || join(homedir(), ".config");
+  return join(configHome, "xdist", "plugins");
+}
+
+export function getPluginErrors(): string[] {
+  return loadErrors;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// The plugin's schema may throw from a refinement; its issues are re-raised through our zod so they read like ours
+function isolateSchema(schema: z.ZodType, file: string): z.ZodType {
+  return z.unknown().superRefine((value, ctx) => {
+    try {
+      const result = schema.safeParse(value);
+      for (const issue of result.success ? [] : result.error.issues) {
+        ctx.addIssue({ code: "custom", path: issue.path, message: issue.message });
+      }
+    } catch (error) {
+      ctx.addIssue({ code: "custom", message: `plugin ${file}: ${describeError(error)}` });
+    }
+  });
+}
+
+// Every call into plugin code is guarded: throws, hangs and malformed results become the provider's error
+function isolateProvider(provider: AgentProvider, file: string): AgentProvider {
+  return {
+    ...provider,
+    isConfigured: (cfg) => {
+      try {
+        return provider.isConfigured(cfg);
+      } catch {
+        return false;
+      }
+    },
+    fromEnv:
+      provider.fromEnv &&
+      ((read) => {
+        try {
+          return provider.fromEnv?.(read) ?? {};
+        } catch {
+          return {};
+        }
+      }),
+    fetchUsage: async (cfg, onUpdate) => {
+      let settled = false;
+      const guardedUpdate = (partial: Partial<UsageResult>) => {
+        const checked = usageResultSchema.partial().safeParse(partial);
+        if (!settled && checked.success) {
+          onUpdate?.(checked.data);
+        }
+      };
+
+      try {
+        const result = await withTimeout(
+          Promise.resolve().then(() => provider.fetchUsage(cfg, guardedUpdate)),
+          FETCH_TIMEOUT_MS,
+          `timed out after ${FETCH_TIMEOUT_MS / 1000}s`,
+        );
+        const checked = usageResultSchema.safeParse(result);
+        if (!checked.success) {
+          throw new Error(`invalid usage result: ${checked.error.issues[0]?.message ?? "unknown"}`);
+        }
+        return checked.data;
+      } catch (error) {
+        throw new Error(`plugin ${file}: ${describeError(error)}`);
+      } finally {
+        settled = true;
+      }
+    },
+  };
+}
+
+async function loadPlugin(path: string): Promise<AgentProvider> {
+  const module: unknown = await withTimeout(import(pathToFileURL(path).href), IMPORT_TIMEOUT_MS, `import timed out after ${IMPORT_TIMEOUT_MS / 1000}s`);
+  const parsed = pluginModuleSchema.safeParse(module);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.join(".") || "module";
+    throw new Error(where === "provider" ? "expected a `provider` export" : `invalid ${where}: ${issue?.message ?? "unknown error"}`);
+  }
+
+  const definition = parsed.data.provider;
+  const optionsSchema = parsed.data.configSchema ?? definition.optionsSchema;
+  const provider: AgentProvider = {
+    ...definition,
+    accent: definition.accent ?? "#9aa5b1",
+    description: definition.description ?? `${definition.label} (plugin)`,
+    supportsLiveFetch: definition.supportsLiveFetch ?? true,
+    credentialName: definition.credentialName ?? "apiKey",
+    defaultBillingMode: definition.defaultBillingMode ?? "payg",
+    isConfigured: definition.isConfigured ?? (() => true),
+    optionsSchema: optionsSchema && isolateSchema(optionsSchema, basename(path)),
+    // the default key keeps a plugin from writing into another provider's history
+    historyKey: undefined,
+  };
+
+  return isolateProvider(provider, basename(path));
+}
+
+// Runs before the config is loaded so plugin providers get defaults and option validation like built-in ones.
+// A plugin that fails to load is skipped and reported through getPluginErrors().
+export async function loadPlugins(dir = getPluginsDir()): Promise<string[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const files = readdirSync(dir)
+    .filter((file) => PLUGIN_EXTENSIONS.some((extension) => file.endsWith(extension)) && !file.endsWith(".d.ts"))
+    .sort();
+  const loaded: string[] = [];
+
+  for (const file of files) {
+    try {
+      const provider = await loadPlugin(join(dir, file));
+      registerProvider(provider);
+      loaded.push(provider.key);
+    } catch (error) {
+      loadErrors.push(`${file}: ${describeError(error)}`);
+    }
+  }
+
+  return loaded;
+}
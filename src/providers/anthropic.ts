@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { resolveBillingCycle } from "../cycle";
+import type { AgentConfig, UsageBreakdownItem, UsageResult } from "../types";
+import {
+  addDailyUsage,
+  addUsage,
+  ensureConfigured,
+  normalizeDayKey,
+  REQUEST_TIMEOUT_MS,
+  resolveLookbackDays,
+  sortedBreakdown,
+  sortedDaily,
+  truncateBody,
+  valueOrZero,
+} from "./shared";
+
+const ANTHROPIC_API_BASE = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_PAGE_LIMIT = 31;
+const ANTHROPIC_MAX_PAGES = 24;
+
+const anthropicUsageResultSchema = z.object({
+  model: z.string().nullish(),
+  uncached_input_tokens: z.number().optional(),
+  cache_read_input_tokens: z.number().optional(),
+  cache_creation: z
+    .object({
+      ephemeral_1h_input_tokens: z.number().optional(),
+      ephemeral_5m_input_tokens: z.number().optional(),
+    })
+    .nullish(),
+  output_tokens: z.number().optional(),
+});
+
+const anthropicCostResultSchema = z.object({
+  model: z.string().nullish(),
+  description: z.string().nullish(),
+  currency: z.string().optional(),
+  // Decimal string in the lowest currency unit (cents)
+  amount: z.union([z.string(), z.number()]).optional(),
+});
+
+function anthropicPageSchema<T extends z.ZodTypeAny>(result: T) {
+  return z.object({
+    data: z.array(
+      z.object({
+        starting_at: z.string(),
+        ending_at: z.string().optional(),
+        results: z.array(result).optional(),
+      }),
+    ),
+    has_more: z.boolean().optional(),
+    next_page: z.string().nullish(),
+  });
+}
+
+const anthropicUsagePageSchema = anthropicPageSchema(anthropicUsageResultSchema);
+const anthropicCostPageSchema = anthropicPageSchema(anthropicCostResultSchema);
+
+type AnthropicUsagePage = z.infer<typeof anthropicUsagePageSchema>;
+type AnthropicCostPage = z.infer<typeof anthropicCostPageSchema>;
+
+function resolveBaseUrl(cfg: AgentConfig): string {
+  return (cfg.baseUrl?.trim() || ANTHROPIC_API_BASE).replace(/\/+$/, "");
+}
+
+function amountInDollars(amount: string | number | undefined): number {
+  const cents = typeof amount === "string" ? Number.parseFloat(amount) : amount;
+  return valueOrZero(cents) / 100;
+}
+
+async function fetchAnthropicPage<S extends z.ZodTypeAny>(
+  baseUrl: string,
+  apiKey: string,
+  path: string,
+  schema: S,
+  params: Record<string, string | string[]>,
+): Promise<z.infer<S>> {
+  const endpoint = new URL(`${baseUrl}${path}`);
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      endpoint.searchParams.append(name, item);
+    }
+  }
+
+  const response = await fetch(endpoint, {
+    headers: {
+      Accept: "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      "User-Agent": "usage-limits-opentui",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Anthropic API ${response.status} for ${path}: ${truncateBody(body) || response.statusText}`);
+  }
+
+  const payload = (await response.json()) as unknown;
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`Anthropic ${path} returned unexpected shape.`);
+  }
+
+  return parsed.data;
+}
+
+export async function fetchAnthropicUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const apiKey = ensureConfigured(cfg.apiKey, "Anthropic admin key");
+  const baseUrl = resolveBaseUrl(cfg);
+  const lookbackDays = resolveLookbackDays(cfg);
+
+  const now = new Date();
+  const cycle = resolveBillingCycle(cfg, now);
+  const cycleStart = cycle.start;
+  const cycleStartKey = cycle.startKey;
+  const historyStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (lookbackDays - 1)));
+  const start = historyStart < cycleStart ? historyStart : cycleStart;
+  const startingAt = start.toISOString();
+
+  const byDay = new Map<string, { used: number; cost: number }>();
+  const byModel = new Map<string, UsageBreakdownItem>();
+  let used = 0;
+  let cost = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cacheTokens = 0;
+  let pages = 0;
+
+  const report = (): void => {
+    onUpdate?.({
+      used,
+      cost,
+      breakdown: sortedBreakdown(byModel),
+      daily: sortedDaily(byDay),
+    });
+  };
+
+  // Token usage per model in daily buckets
+  let page: string | undefined;
+  for (let i = 0; i < ANTHROPIC_MAX_PAGES; i += 1) {
+    const result: AnthropicUsagePage = await fetchAnthropicPage(baseUrl, apiKey, "/v1/organizations/usage_report/messages", anthropicUsagePageSchema, {
+      starting_at: startingAt,
+      bucket_width: "1d",
+      "group_by[]": ["model"],
+      limit: String(ANTHROPIC_PAGE_LIMIT),
+      ...(page ? { page } : {}),
+    });
+    pages += 1;
+
+    for (const bucket of result.data) {
+      const day = normalizeDayKey(bucket.starting_at);
+      for (const row of bucket.results ?? []) {
+        const input = valueOrZero(row.uncached_input_tokens);
+        const output = valueOrZero(row.output_tokens);
+        const cache =
+          valueOrZero(row.cache_read_input_tokens) +
+          valueOrZero(row.cache_creation?.ephemeral_1h_input_tokens) +
+          valueOrZero(row.cache_creation?.ephemeral_5m_input_tokens);
+        const tokens = input + output + cache;
+        addDailyUsage(byDay, day, tokens, 0);
+
+        if (day && day >= cycleStartKey) {
+          used += tokens;
+          inputTokens += input;
+          outputTokens += output;
+          cacheTokens += cache;
+          addUsage(byModel, row.model ?? "other", tokens, 0);
+        }
+      }
+    }
+
+    report();
+    if (!result.has_more || !result.next_page) {
+      break;
+    }
+    page = result.next_page;
+  }
+
+  // Spend per model (grouped by description so the model field is populated)
+  page = undefined;
+  for (let i = 0; i < ANTHROPIC_MAX_PAGES; i += 1) {
+    const result: AnthropicCostPage = await fetchAnthropicPage(baseUrl, apiKey, "/v1/organizations/cost_report", anthropicCostPageSchema, {
+      starting_at: startingAt,
+      bucket_width: "1d",
+      "group_by[]": ["description"],
+      limit: String(ANTHROPIC_PAGE_LIMIT),
+      ...(page ? { page } : {}),
+    });
+    pages += 1;
+
+    for (const bucket of result.data) {
+      const day = normalizeDayKey(bucket.starting_at);
+      for (const row of bucket.results ?? []) {
+        const amount = amountInDollars(row.amount);
+        addDailyUsage(byDay, day, 0, amount);
+
+        if (day && day >= cycleStartKey) {
+          cost += amount;
+          addUsage(byModel, row.model ?? row.description ?? "other", 0, amount);
+        }
+      }
+    }
+
+    report();
+    if (!result.has_more || !result.next_page) {
+      break;
+    }
+    page = result.next_page;
+  }
+
+  const breakdown = sortedBreakdown(byModel);
+  const details: string[] = [
+    `Current cycle: ${cycle.startKey} to ${cycle.endKey}`,
+    `Tokens (current cycle): ${inputTokens} in / ${outputTokens} out / ${cacheTokens} cache`,
+    `Trend window: ${lookbackDays} days (${byDay.size} days found, ${pages} pages)`,
+    "Endpoint: /v1/organizations/usage_report/messages + /v1/organizations/cost_report",
+  ];
+
+  if (breakdown.length === 0) {
+    details.push("No Anthropic usage rows returned for current cycle.");
+  }
+
+  return {
+    used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "tok",
+    cost,
+    details,
+    breakdown,
+    daily: sortedDaily(byDay),
+  };
+}
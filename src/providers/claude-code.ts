@@ -0,0 +1,85 @@
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { AgentConfig, UsageResult } from "../types";
+import { createUsageTally, listFiles, scanJsonlFiles, type LineParser } from "./local-logs";
+import { pickNumber, pickString, toRecord } from "./shared";
+
+// An explicit Data Directory or CLAUDE_CONFIG_DIR must exist; only the default locations are probed
+function resolveProjectDirs(cfg: AgentConfig): string[] {
+  const configHome = Bun.env.CLAUDE_CONFIG_DIR?.trim();
+  const explicit = cfg.dataDir?.trim() || (configHome ? join(configHome, "projects") : undefined);
+  if (explicit) {
+    if (!existsSync(explicit)) {
+      throw new Error(`Claude Code projects directory not found (${explicit}).`);
+    }
+    return [explicit];
+  }
+
+  const candidates = [join(homedir(), ".config", "claude", "projects"), join(homedir(), ".claude", "projects")];
+  return candidates.filter((dir) => existsSync(dir));
+}
+
+// Transcript lines: { type: "assistant", timestamp, requestId, costUSD?, message: { id, model, usage: {...} } }
+const parseClaudeCodeLine: LineParser = (record) => {
+  const message = toRecord(record.message);
+  const usage = toRecord(message?.usage);
+  const timestamp = pickString(record, ["timestamp"]);
+  if (!message || !usage || !timestamp) {
+    return undefined;
+  }
+
+  const model = pickString(message, ["model"]) ?? "unknown";
+  if (model === "<synthetic>") {
+    return undefined;
+  }
+
+  const messageId = pickString(message, ["id"]);
+  const requestId = pickString(record, ["requestId"]);
+
+  return {
+    id: messageId && requestId ? `${messageId}:${requestId}` : undefined,
+    timestamp,
+    model,
+    inputTokens: pickNumber(usage, ["input_tokens"]) ?? 0,
+    outputTokens: pickNumber(usage, ["output_tokens"]) ?? 0,
+    cacheWriteTokens: pickNumber(usage, ["cache_creation_input_tokens"]) ?? 0,
+    cacheReadTokens: pickNumber(usage, ["cache_read_input_tokens"]) ?? 0,
+    cost: pickNumber(record, ["costUSD"]),
+  };
+};
+
+export async function fetchClaudeCodeUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const dirs = resolveProjectDirs(cfg);
+  if (dirs.length === 0) {
+    throw new Error("No Claude Code projects directory found (~/.claude/projects).");
+  }
+
+  const files = dirs.flatMap((dir) => listFiles(dir, ".jsonl"));
+
+  const tally = createUsageTally(cfg);
+  await scanJsonlFiles("claude-code", files, parseClaudeCodeLine, (added) => {
+    tally.add(added);
+    const summary = tally.summary();
+    onUpdate?.({ used: summary.used, cost: summary.cost, breakdown: summary.breakdown, daily: summary.daily });
+  });
+
+  const summary = tally.summary();
+  const { tokens } = summary;
+
+  return {
+    used: summary.used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "tok",
+    cost: summary.cost,
+    details: [
+      `Source: Claude Code transcripts (${files.length} files in ${dirs.join(", ")})`,
+      `Messages (current cycle): ${summary.entries}`,
+      `Tokens (current cycle): ${tokens.inputTokens} in / ${tokens.outputTokens} out / ${tokens.cacheWriteTokens} cache write / ${tokens.cacheReadTokens} cache read`,
+      "Cost is estimated from the offline price table (API-equivalent, not your subscription bill).",
+    ],
+    breakdown: summary.breakdown,
+    daily: summary.daily,
+    samples: summary.samples,
+  };
+}
@@ -0,0 +1,120 @@
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { AgentConfig, UsageResult } from "../types";
+import { createUsageTally, listFiles, scanJsonlFiles, type LineParser } from "./local-logs";
+import { pickNumber, pickString, toRecord, type JsonRecord } from "./shared";
+
+function resolveSessionsDir(cfg: AgentConfig): string {
+  if (cfg.dataDir?.trim()) {
+    return cfg.dataDir.trim();
+  }
+
+  const codexHome = Bun.env.CODEX_HOME?.trim() || join(homedir(), ".codex");
+  return join(codexHome, "sessions");
+}
+
+function readTotals(usage: JsonRecord | null): { input: number; cached: number; output: number } | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    input: pickNumber(usage, ["input_tokens"]) ?? 0,
+    cached: pickNumber(usage, ["cached_input_tokens"]) ?? 0,
+    output: pickNumber(usage, ["output_tokens"]) ?? 0,
+  };
+}
+
+// Rollout lines: { timestamp, type, payload }. The model comes from session_meta/turn_context,
+// token usage from event_msg payloads of type "token_count" carrying cumulative totals.
+const parseCodexLine: LineParser = (record, fileState) => {
+  const type = pickString(record, ["type"]);
+  const payload = toRecord(record.payload);
+  if (!payload) {
+    return undefined;
+  }
+
+  if (type === "session_meta" || type === "turn_context") {
+    const model = pickString(payload, ["model"]);
+    if (model) {
+      fileState.model = model;
+    }
+    return undefined;
+  }
+
+  if (type !== "event_msg" || pickString(payload, ["type"]) !== "token_count") {
+    return undefined;
+  }
+
+  const timestamp = pickString(record, ["timestamp"]);
+  const info = toRecord(payload.info);
+  const total = readTotals(toRecord(info?.total_token_usage));
+  if (!timestamp || !total) {
+    return undefined;
+  }
+
+  // Token events repeat the running total, so count only what grew since the last one
+  const previous = toRecord(fileState.total);
+  const prevInput = previous ? (pickNumber(previous, ["input"]) ?? 0) : 0;
+  const prevCached = previous ? (pickNumber(previous, ["cached"]) ?? 0) : 0;
+  const prevOutput = previous ? (pickNumber(previous, ["output"]) ?? 0) : 0;
+
+  let delta = { input: total.input - prevInput, cached: total.cached - prevCached, output: total.output - prevOutput };
+  if (delta.input < 0 || delta.cached < 0 || delta.output < 0) {
+    // totals went backwards (context reset): fall back to the last turn's usage
+    delta = readTotals(toRecord(info?.last_token_usage)) ?? { input: 0, cached: 0, output: 0 };
+  }
+  fileState.total = total;
+
+  if (delta.input <= 0 && delta.output <= 0) {
+    return undefined;
+  }
+
+  const cached = Math.min(delta.cached, delta.input);
+
+  return {
+    timestamp,
+    model: typeof fileState.model === "string" ? fileState.model : "unknown",
+    // OpenAI counts cached tokens inside input_tokens
+    inputTokens: delta.input - cached,
+    outputTokens: delta.output,
+    cacheWriteTokens: 0,
+    cacheReadTokens: cached,
+  };
+};
+
+export async function fetchCodexCliUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const dir = resolveSessionsDir(cfg);
+  if (!existsSync(dir)) {
+    throw new Error(`No Codex sessions directory found (${dir}).`);
+  }
+
+  const files = listFiles(dir, ".jsonl");
+
+  const tally = createUsageTally(cfg);
+  await scanJsonlFiles("codex-cli", files, parseCodexLine, (added) => {
+    tally.add(added);
+    const summary = tally.summary();
+    onUpdate?.({ used: summary.used, cost: summary.cost, breakdown: summary.breakdown, daily: summary.daily });
+  });
+
+  const summary = tally.summary();
+  const { tokens } = summary;
+
+  return {
+    used: summary.used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "tok",
+    cost: summary.cost,
+    details: [
+      `Source: Codex CLI rollouts (${files.length} files in ${dir})`,
+      `Token events (current cycle): ${summary.entries}`,
+      `Tokens (current cycle): ${tokens.inputTokens} in / ${tokens.cacheReadTokens} cached / ${tokens.outputTokens} out`,
+      "Cost is estimated from the offline price table (API-equivalent, not your subscription bill).",
+    ],
+    breakdown: summary.breakdown,
+    daily: summary.daily,
+    samples: summary.samples,
+  };
+}
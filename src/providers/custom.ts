@@ -0,0 +1,252 @@
+import { z } from "zod";
+import { resolveBillingCycle, type BillingCycle } from "../cycle";
+import type { AgentConfig, UsageBreakdownItem, UsageResult } from "../types";
+import {
+  addDailyUsage,
+  addUsage,
+  ensureConfigured,
+  normalizeDayKey,
+  parseJsonOrNdjson,
+  pickNumber,
+  pickString,
+  REQUEST_TIMEOUT_MS,
+  sortedBreakdown,
+  sortedDaily,
+  toRecord,
+  truncateBody,
+} from "./shared";
+
+const WILDCARD = Symbol("wildcard");
+
+// Item fields without a selector fall back to the usual names, like the other tolerant parsers
+const LABEL_KEYS = ["model", "name", "label", "id"] as const;
+const USED_KEYS = ["requests", "used", "count", "usage"] as const;
+const COST_KEYS = ["cost", "spend", "amount", "usd"] as const;
+const DAY_KEYS = ["day", "date", "timestamp", "time"] as const;
+
+const itemsSelectorSchema = z.object({
+  items: z.string().min(1),
+  used: z.string().optional(),
+  cost: z.string().optional(),
+});
+
+export const customOptionsSchema = z.object({
+  url: z.string().min(1),
+  method: z.enum(["GET", "POST"]).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  body: z.string().optional(),
+  unit: z.string().optional(),
+  selectors: z.object({
+    used: z.string().optional(),
+    limit: z.string().optional(),
+    cost: z.string().optional(),
+    costLimit: z.string().optional(),
+    breakdown: itemsSelectorSchema.extend({ label: z.string().optional() }).optional(),
+    daily: itemsSelectorSchema.extend({ day: z.string().optional() }).optional(),
+  }),
+});
+
+export type CustomOptions = z.infer<typeof customOptionsSchema>;
+
+type PathStep = string | number | typeof WILDCARD;
+
+// "$.data.total", "usage.requests", "rows[0]['model name']", "models[*].cost"
+function parseSelector(selector: string): PathStep[] {
+  const source = selector.trim().replace(/^\$(?=[.[]|$)/, "");
+  const pattern = /\.?([\w$-]+|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/y;
+  const steps: PathStep[] = [];
+
+  while (pattern.lastIndex < source.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(source);
+    if (!match || match.index !== start) {
+      throw new Error(`Invalid selector "${selector}" at position ${start}`);
+    }
+
+    const token = match[1] ?? match[2] ?? "";
+    if (token === "*") {
+      steps.push(WILDCARD);
+    } else if (match[2] && /^\d+$/.test(token)) {
+      steps.push(Number(token));
+    } else {
+      steps.push(match[2] ? token.slice(1, -1) : token);
+    }
+  }
+
+  return steps;
+}
+
+// Every value the selector reaches; wildcards fan out over array items or object values
+export function selectPath(root: unknown, selector: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const step of parseSelector(selector)) {
+    current = current.flatMap((value) => {
+      if (step === WILDCARD) {
+        return Array.isArray(value) ? value : Object.values(toRecord(value) ?? {});
+      }
+      if (typeof step === "number") {
+        return Array.isArray(value) && step < value.length ? [value[step]] : [];
+      }
+      const record = toRecord(value);
+      return record && step in record ? [record[step]] : [];
+    });
+  }
+
+  return current;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Numbers reached through a wildcard are summed; undefined when the selector matches nothing numeric
+export function selectNumber(root: unknown, selector: string): number | undefined {
+  const numbers = selectPath(root, selector)
+    .map(toNumber)
+    .filter((value): value is number => value !== undefined);
+  return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) : undefined;
+}
+
+function itemNumber(item: unknown, selector: string | undefined, fallbackKeys: readonly string[]): number | undefined {
+  if (selector) {
+    return selectNumber(item, selector);
+  }
+
+  // gateways often send amounts as strings
+  const record = toRecord(item);
+  return record ? (pickNumber(record, fallbackKeys) ?? fallbackKeys.map((key) => toNumber(record[key])).find((value) => value !== undefined)) : undefined;
+}
+
+function itemString(item: unknown, selector: string | undefined, fallbackKeys: readonly string[]): string | undefined {
+  if (selector) {
+    const value = selectPath(item, selector)[0];
+    return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+  }
+
+  const record = toRecord(item);
+  return record ? (pickString(record, fallbackKeys) ?? pickNumber(record, fallbackKeys)?.toString()) : undefined;
+}
+
+// Days may come as dates, ISO timestamps or Unix time in seconds or milliseconds
+function toDayKey(value: string | undefined): string | undefined {
+  if (value && /^\d{9,13}$/.test(value)) {
+    const epoch = Number(value);
+    return new Date(value.length > 10 ? epoch : epoch * 1000).toISOString().slice(0, 10);
+  }
+
+  return normalizeDayKey(value);
+}
+
+// {apiKey}, {token}, {username}, {cycleStart}, {cycleEnd} and {env:NAME}; URL values are percent-encoded
+function interpolate(template: string, cfg: AgentConfig, cycle: BillingCycle, encode: boolean): string {
+  return template.replace(/\{([\w:]+)\}/g, (_, name: string) => {
+    let value: string;
+    if (name === "apiKey") {
+      value = ensureConfigured(cfg.apiKey, "API key");
+    } else if (name === "token") {
+      value = ensureConfigured(cfg.token, "token");
+    } else if (name === "username") {
+      value = ensureConfigured(cfg.username, "username");
+    } else if (name === "cycleStart") {
+      value = cycle.startKey;
+    } else if (name === "cycleEnd") {
+      value = cycle.endKey;
+    } else if (name.startsWith("env:")) {
+      value = ensureConfigured(Bun.env[name.slice(4)], `environment variable ${name.slice(4)}`);
+    } else {
+      throw new Error(`Unknown placeholder {${name}}`);
+    }
+
+    return encode ? encodeURIComponent(value) : value;
+  });
+}
+
+export function parseCustomOptions(cfg: AgentConfig): CustomOptions | undefined {
+  const parsed = customOptionsSchema.safeParse(cfg.options);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    // NDJSON: selectors see the rows as an array
+    return parseJsonOrNdjson(text);
+  }
+}
+
+export async function fetchCustomUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const options = parseCustomOptions(cfg);
+  if (!options) {
+    throw new Error("Custom provider needs options.url and options.selectors in the config file.");
+  }
+
+  const cycle = resolveBillingCycle(cfg);
+  const endpoint = new URL(interpolate(options.url, cfg, cycle, true));
+  const headers: Record<string, string> = { Accept: "application/json", "User-Agent": "usage-limits-opentui" };
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name] = interpolate(value, cfg, cycle, false);
+  }
+
+  const response = await fetch(endpoint, {
+    method: options.method ?? "GET",
+    headers,
+    body: options.body === undefined ? undefined : interpolate(options.body, cfg, cycle, false),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${endpoint.host} returned ${response.status}: ${truncateBody(text) || response.statusText}`);
+  }
+
+  const root = parseBody(text);
+  const selectors = options.selectors;
+
+  const byDay = new Map<string, { used: number; cost: number }>();
+  if (selectors.daily) {
+    for (const item of selectPath(root, selectors.daily.items)) {
+      const day = toDayKey(itemString(item, selectors.daily.day, DAY_KEYS));
+      addDailyUsage(byDay, day, itemNumber(item, selectors.daily.used, USED_KEYS) ?? 0, itemNumber(item, selectors.daily.cost, COST_KEYS) ?? 0);
+    }
+  }
+  const daily = sortedDaily(byDay);
+  const inCycle = daily.filter((point) => point.day >= cycle.startKey && point.day < cycle.endKey);
+
+  const byLabel = new Map<string, UsageBreakdownItem>();
+  if (selectors.breakdown) {
+    for (const item of selectPath(root, selectors.breakdown.items)) {
+      addUsage(
+        byLabel,
+        itemString(item, selectors.breakdown.label, LABEL_KEYS) ?? "other",
+        itemNumber(item, selectors.breakdown.used, USED_KEYS) ?? 0,
+        itemNumber(item, selectors.breakdown.cost, COST_KEYS) ?? 0,
+      );
+    }
+  }
+  const breakdown = sortedBreakdown(byLabel);
+
+  // without a total selector the cycle is summed from the daily series
+  const used = (selectors.used ? selectNumber(root, selectors.used) : undefined) ?? inCycle.reduce((sum, point) => sum + point.used, 0);
+  const cost = (selectors.cost ? selectNumber(root, selectors.cost) : undefined) ?? inCycle.reduce((sum, point) => sum + point.cost, 0);
+  const limit = selectors.limit ? selectNumber(root, selectors.limit) : undefined;
+  const costLimit = selectors.costLimit ? selectNumber(root, selectors.costLimit) : undefined;
+  onUpdate?.({ used, cost, breakdown, daily });
+
+  return {
+    used,
+    limit: cfg.billingMode === "quota" ? (limit ?? cfg.monthlyLimit) : undefined,
+    unit: options.unit ?? "req",
+    cost,
+    costLimit,
+    details: [
+      // the query string may carry credentials
+      `Endpoint: ${options.method ?? "GET"} ${endpoint.origin}${endpoint.pathname}`,
+      `Current cycle: ${cycle.startKey} to ${cycle.endKey}`,
+      ...(selectors.daily ? [`Daily series: ${daily.length} days`] : []),
+    ],
+    breakdown,
+    daily,
+  };
+}
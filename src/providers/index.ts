@@ -1,5 +1,30 @@
 import { z } from "zod";
+import { resolveBillingCycle, type BillingCycle } from "../cycle";
 import type { AgentConfig, AgentKey, AgentProvider, DailyUsagePoint, UsageBreakdownItem, UsageResult } from "../types";
+import { isMonthFinal, loadDaily, markMonthFetched, recordDaily } from "../history";
+import {
+  addDailyUsage,
+  ensureConfigured,
+  makeManualUsage,
+  normalizeDayKey,
+  parseJsonOrNdjson,
+  pickNumber,
+  pickString,
+  REQUEST_TIMEOUT_MS,
+  sortedDaily,
+  toArray,
+  toRecord,
+  valueOrZero,
+  type JsonRecord,
+} from "./shared";
+import { fetchAnthropicUsage } from "./anthropic";
+import { fetchClaudeCodeUsage } from "./claude-code";
+import { fetchCodexCliUsage } from "./codex-cli";
+import { customOptionsSchema, fetchCustomUsage, parseCustomOptions } from "./custom";
+import { fetchOllamaUsage } from "./ollama";
+import { fetchOpenAIUsage } from "./openai";
+import { fetchOpenCodeUsage } from "./opencode";
+import { fetchOpenRouterUsage } from "./openrouter";
 
 const githubUsageItemSchema = z.object({
   product: z.string(),
@@ -48,21 +73,6 @@ const githubBillingUsageSchema = z.object({
   usage_items: z.array(githubBillingUsageItemSchema).optional(),
 });
 
-type JsonRecord = Record<string, unknown>;
-
-function ensureConfigured(value: string | undefined, fieldName: string): string {
-  const cleaned = value?.trim();
-  if (!cleaned) {
-    throw new Error(`Missing ${fieldName}`);
-  }
-
-  return cleaned;
-}
-
-function valueOrZero(value: number | undefined): number {
-  return typeof value === "number" && Number.isFinite(value) ? value : 0;
-}
-
 function dayKeyFromTimePeriod(period: { year?: number; month?: number; day?: number } | undefined): string | undefined {
   const y = period?.year;
   const m = period?.month;
@@ -93,28 +103,36 @@ function monthKey(year: number, month: number): string {
   return `${year.toString().padStart(4, "0")}-${month.toString().padStart(2, "0")}`;
 }
 
-function buildMonthlyWindows(count: number): Array<{ year: number; month: number; isCurrent: boolean }> {
+// Calendar months back from today; every month the billing cycle touches is marked current
+function buildMonthlyWindows(count: number, cycle: BillingCycle): Array<{ year: number; month: number; isCurrent: boolean }> {
   const now = new Date();
   const windows: Array<{ year: number; month: number; isCurrent: boolean }> = [];
+  const cycleMonth = cycle.startKey.slice(0, 7);
 
   for (let i = 0; i < count; i += 1) {
     const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth() + 1;
     windows.push({
-      year: d.getUTCFullYear(),
-      month: d.getUTCMonth() + 1,
-      isCurrent: i === 0,
+      year,
+      month,
+      isCurrent: monthKey(year, month) >= cycleMonth,
     });
   }
 
   return windows;
 }
 
+// Finished days never change, so per-day premium request lookups are only made once
+const PREMIUM_DAY_CACHE = new Map<string, Array<z.infer<typeof githubUsageBucketSchema>>>();
+
 async function fetchGitHubPremiumRequestUsageMonth(
   token: string,
   isOrg: boolean,
   target: string,
   year: number,
   month: number,
+  day?: number,
 ): Promise<Array<z.infer<typeof githubUsageBucketSchema>>> {
   const endpoint = new URL(
     isOrg
@@ -123,6 +141,9 @@ async function fetchGitHubPremiumRequestUsageMonth(
   );
   endpoint.searchParams.set("year", String(year));
   endpoint.searchParams.set("month", String(month));
+  if (day !== undefined) {
+    endpoint.searchParams.set("day", String(day));
+  }
 
   const response = await fetch(endpoint, {
     headers: {
@@ -131,6 +152,7 @@ async function fetchGitHubPremiumRequestUsageMonth(
       "X-GitHub-Api-Version": "2022-11-28",
       "User-Agent": "usage-limits-opentui",
     },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
   });
 
   if (!response.ok) {
@@ -170,6 +192,7 @@ async function fetchGitHubBillingUsageMonth(
       "X-GitHub-Api-Version": "2022-11-28",
       "User-Agent": "usage-limits-opentui",
     },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
   });
 
   if (!response.ok) {
@@ -187,61 +210,44 @@ async function fetchGitHubBillingUsageMonth(
   return parsed.data.usageItems ?? parsed.data.usage_items ?? [];
 }
 
-function toRecord(value: unknown): JsonRecord | null {
-  if (!value || typeof value !== "object" || Array.isArray(value)) {
-    return null;
-  }
-
-  return value as JsonRecord;
-}
-
-function toArray(value: unknown): unknown[] {
-  return Array.isArray(value) ? value : [];
-}
-
-function pickString(record: JsonRecord, keys: readonly string[]): string | undefined {
-  for (const key of keys) {
-    const value = record[key];
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-
-  return undefined;
-}
-
-function pickNumber(record: JsonRecord, keys: readonly string[]): number | undefined {
-  for (const key of keys) {
-    const value = record[key];
-    if (typeof value === "number" && Number.isFinite(value)) {
-      return value;
-    }
-  }
-
-  return undefined;
-}
+async function fetchGitHubPremiumRequestUsageCycle(
+  token: string,
+  isOrg: boolean,
+  target: string,
+  months: Array<{ year: number; month: number; isCurrent: boolean }>,
+  cycle: BillingCycle,
+): Promise<Array<z.infer<typeof githubUsageBucketSchema>>> {
+  const current = months.filter((window) => window.isCurrent).reverse();
 
-function normalizeDayKey(value: string | undefined): string | undefined {
-  if (!value) {
-    return undefined;
+  // Cycles starting on the 1st line up with the monthly report
+  if (cycle.startKey.endsWith("-01") && current.length === 1 && current[0]) {
+    return fetchGitHubPremiumRequestUsageMonth(token, isOrg, target, current[0].year, current[0].month);
   }
 
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return undefined;
-  }
+  const todayKey = new Date().toISOString().slice(0, 10);
+  const buckets: Array<z.infer<typeof githubUsageBucketSchema>> = [];
 
-  const direct = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
-  if (direct) {
-    return `${direct[1]}-${direct[2]}-${direct[3]}`;
-  }
+  for (const window of current) {
+    const daysInMonth = new Date(Date.UTC(window.year, window.month, 0)).getUTCDate();
+    for (let day = 1; day <= daysInMonth; day += 1) {
+      const key = `${monthKey(window.year, window.month)}-${String(day).padStart(2, "0")}`;
+      if (key < cycle.startKey || key > todayKey) {
+        continue;
+      }
 
-  const parsed = new Date(trimmed);
-  if (!Number.isFinite(parsed.getTime())) {
-    return undefined;
+      const cacheKey = `${isOrg ? "org" : "user"}:${target}:${key}`;
+      let dayBuckets = PREMIUM_DAY_CACHE.get(cacheKey);
+      if (!dayBuckets) {
+        dayBuckets = await fetchGitHubPremiumRequestUsageMonth(token, isOrg, target, window.year, window.month, day);
+        if (key < todayKey) {
+          PREMIUM_DAY_CACHE.set(cacheKey, dayBuckets);
+        }
+      }
+      buckets.push(...dayBuckets);
+    }
   }
 
-  return parsed.toISOString().slice(0, 10);
+  return buckets;
 }
 
 function extractDayKey(record: JsonRecord): string | undefined {
@@ -304,52 +310,6 @@ function addToDaily(map: Map<string, { used: number; cost: number }>, day: strin
   map.set(day, current);
 }
 
-function parseJsonOrNdjson(text: string): unknown[] {
-  const trimmed = text.trim();
-  if (!trimmed) {
-    return [];
-  }
-
-  try {
-    const parsed = JSON.parse(trimmed) as unknown;
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
-
-    const obj = toRecord(parsed);
-    if (!obj) {
-      return [];
-    }
-
-    const data = toArray(obj.data);
-    if (data.length > 0) {
-      return data;
-    }
-
-    const records = toArray(obj.records);
-    if (records.length > 0) {
-      return records;
-    }
-
-    return [obj];
-  } catch {
-    const rows: unknown[] = [];
-    for (const line of trimmed.split(/\r?\n/)) {
-      const value = line.trim();
-      if (!value) {
-        continue;
-      }
-      try {
-        rows.push(JSON.parse(value) as unknown);
-      } catch {
-        // ignore non-JSON lines
-      }
-    }
-
-    return rows;
-  }
-}
-
 function shouldSendAuthHeader(urlString: string): boolean {
   try {
     const url = new URL(urlString);
@@ -371,7 +331,7 @@ async function downloadReportRecords(downloadLink: string, token: string): Promi
     headers["X-GitHub-Api-Version"] = "2022-11-28";
   }
 
-  const response = await fetch(downloadLink, { headers });
+  const response = await fetch(downloadLink, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
   if (!response.ok) {
     const body = await response.text();
     const detail = body.length > 160 ? `${body.slice(0, 157)}...` : body;
@@ -541,24 +501,9 @@ function collectUsageMetricsFromRecord(
   return total;
 }
 
-function makeManualUsage(label: string, cfg: AgentConfig): UsageResult {
-  const used = cfg.manualUsed ?? 0;
-  const cost = cfg.manualCost ?? 0;
-  const limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
-
-  const details: string[] = [
-    "Manual provider mode (live API integration can be added later).",
-    `Agent: ${label}`,
-    cfg.billingMode === "payg" ? "Billing mode: pay-as-you-go" : "Billing mode: monthly quota",
-  ];
-
-  return {
-    used,
-    limit,
-    unit: "req",
-    cost,
-    details,
-  };
+// Past months are cached per GitHub identity, so the snapshot history shares the key rather than keeping a second copy
+function copilotHistoryKey(cfg: AgentConfig): string {
+  return `github-copilot:${(cfg.username?.trim() ?? "").toLowerCase()}`;
 }
 
 async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
@@ -570,14 +515,15 @@ async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Pa
     throw new Error("Missing GitHub username/org value.");
   }
 
-  const months = buildMonthlyWindows(24);
+  const cycle = resolveBillingCycle(cfg);
+  const months = buildMonthlyWindows(24, cycle);
 
   const current = months[0];
   if (!current) {
     throw new Error("Unable to resolve current month window.");
   }
 
-  const currentBuckets = await fetchGitHubPremiumRequestUsageMonth(token, isOrg, target, current.year, current.month);
+  const currentBuckets = await fetchGitHubPremiumRequestUsageCycle(token, isOrg, target, months, cycle);
 
   const byDay = new Map<string, { used: number; cost: number }>();
   const currentByModel = new Map<string, UsageBreakdownItem>();
@@ -622,11 +568,32 @@ async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Pa
     });
   }
 
-  // Fetch history across 24 months sequentially to avoid rate limits and update incrementally
-  let fetchedCount = 1; // monthly premium request usage (current month) is already done
+  // Fetch history across 24 months sequentially to avoid rate limits and update incrementally.
+  // Months that can no longer change come from the local history store instead.
+  const historyKey = copilotHistoryKey(cfg);
+  // billing adjustments can trail a month by a few days; months that ended over a week ago are final
+  const settleDate = new Date(Date.now() - 7 * 86400000);
+  const settledBefore = monthKey(settleDate.getUTCFullYear(), settleDate.getUTCMonth() + 1);
+  let fetchedCount = 1; // premium request usage for the current cycle is already done
+  let cachedMonths = 0;
   for (const window of months) {
+    const windowKey = monthKey(window.year, window.month);
+    if (isMonthFinal(historyKey, windowKey)) {
+      const stored = loadDaily(historyKey, `${windowKey}-01`, `${windowKey}-31`);
+      for (const point of stored) {
+        byDay.set(point.day, { used: point.used, cost: point.cost });
+      }
+      fetchedCount += 1;
+      cachedMonths += 1;
+      if (stored.length > 0 && onUpdate) {
+        onUpdate({ daily: sortedDaily(byDay), fetchedMonths: fetchedCount });
+      }
+      continue;
+    }
+
     try {
       const usageItems = await fetchGitHubBillingUsageMonth(token, isOrg, target, window.year, window.month);
+      const monthDays = new Map<string, { used: number; cost: number }>();
       let changedInMonth = false;
       fetchedCount += 1;
 
@@ -646,9 +613,13 @@ async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Pa
         currentValue.used += quantity;
         currentValue.cost += amount;
         byDay.set(day, currentValue);
+        addDailyUsage(monthDays, day, quantity, amount);
         changedInMonth = true;
       }
 
+      recordDaily(historyKey, sortedDaily(monthDays));
+      markMonthFetched(historyKey, windowKey, windowKey < settledBefore && !window.isCurrent);
+
       if (changedInMonth && onUpdate) {
         const daily: DailyUsagePoint[] = [...byDay.entries()]
           .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
@@ -666,16 +637,16 @@ async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Pa
   const breakdown = [...currentByModel.values()].sort((a, b) => b.used - a.used);
   const details: string[] = [
     `${isOrg ? "GitHub org" : "GitHub user"}: ${target}`,
-    `Current month: ${current ? monthKey(current.year, current.month) : "n/a"}`,
-    `Trend window: 24 months (${byDay.size} days found)`,
-    `Included quantity (current month): ${currentDiscountQuantity.toFixed(2)} req`,
+    `Current cycle: ${cycle.startKey} to ${cycle.endKey}`,
+    `Trend window: 24 months (${byDay.size} days found, ${cachedMonths} months from local history)`,
+    `Included quantity (current cycle): ${currentDiscountQuantity.toFixed(2)} req`,
     isOrg
       ? "Endpoint: /organizations/{org}/settings/billing/premium_request/usage"
       : "Endpoint: /users/{username}/settings/billing/premium_request/usage",
   ];
 
   if (breakdown.length === 0) {
-    details.push("No Copilot premium request rows returned for current month.");
+    details.push("No Copilot premium request rows returned for current cycle.");
   }
 
   const daily: DailyUsagePoint[] = [...byDay.entries()]
@@ -694,12 +665,18 @@ async function fetchGitHubCopilotUsage(cfg: AgentConfig, onUpdate?: (partial: Pa
   };
 }
 
+// The first variable that is set wins
+function apiKeyFromEnv(...names: string[]): NonNullable<AgentProvider["fromEnv"]> {
+  return (read) => ({ apiKey: names.map(read).find(Boolean) });
+}
+
 function keyProvider(
   key: AgentKey,
   label: string,
   accent: string,
   description: string,
   billingMode: "quota" | "payg",
+  apiKeyEnv: string,
 ): AgentProvider {
   return {
     key,
@@ -708,6 +685,8 @@ function keyProvider(
     description,
     supportsLiveFetch: false,
     credentialName: "apiKey",
+    defaultBillingMode: billingMode,
+    fromEnv: apiKeyFromEnv(apiKeyEnv),
     isConfigured: (cfg) => Boolean(cfg.apiKey?.trim()),
     fetchUsage: async (cfg, onUpdate) => {
       if (!cfg.apiKey?.trim()) {
@@ -723,25 +702,150 @@ export const PROVIDERS: AgentProvider[] = [
   {
     key: "github-copilot",
     label: "GitHub Copilot",
+    shortLabel: "Copilot",
     accent: "#58a6ff",
     description: "Live Copilot premium request usage via GitHub billing usage API.",
     supportsLiveFetch: true,
     credentialName: "token",
+    defaultBillingMode: "quota",
+    enabledByDefault: true,
+    fromEnv: (read) => {
+      const org = read("GITHUB_ORG");
+      return { token: read("GITHUB_TOKEN"), username: read("GITHUB_USERNAME") ?? (org ? `org:${org}` : undefined) };
+    },
     isConfigured: (cfg) => Boolean(cfg.token?.trim() && cfg.username?.trim()),
+    historyKey: copilotHistoryKey,
     fetchUsage: fetchGitHubCopilotUsage,
   },
-  keyProvider("codex", "Codex", "#00d4ff", "OpenAI/Codex usage (manual until API adapter is added).", "quota"),
-  keyProvider("claude", "Claude", "#ff9d4d", "Anthropic Claude usage (manual until API adapter is added).", "quota"),
-  keyProvider("zai", "Z.ai", "#8f7cff", "Z.ai usage (manual until API adapter is added).", "quota"),
-  keyProvider("minimax", "MiniMax", "#61e294", "MiniMax usage (manual until API adapter is added).", "quota"),
-  keyProvider("vercel-ai", "Vercel AI SDK", "#d7d7d7", "PAYG mode: show full bar + cost.", "payg"),
-  keyProvider("ollama", "Ollama", "#ffffff", "Ollama usage (manual until API adapter is added).", "payg"),
-  keyProvider("openrouter", "OpenRouter", "#6933ff", "OpenRouter usage (manual until API adapter is added).", "payg"),
-  keyProvider("cursor", "Cursor", "#5ed7ff", "Cursor usage (manual until API adapter is added).", "payg"),
-  keyProvider("antigravity", "Antigravity (Google)", "#4285f4", "Google Antigravity usage (manual until API adapter is added).", "payg"),
-  keyProvider("opencode", "OpenCode", "#ff3e00", "OpenCode usage (manual until API adapter is added).", "payg"),
+  {
+    key: "codex",
+    label: "Codex",
+    accent: "#00d4ff",
+    description: "OpenAI usage via the organization usage API, or local Codex CLI sessions.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "Paste an OpenAI admin key (sk-admin-...)",
+      "Create one under Organization settings → Admin keys",
+      "Or switch Data Source to Local to read Codex CLI sessions instead",
+    ],
+    sources: ["api", "local"],
+    defaultBillingMode: "quota",
+    // Codex CLI sessions count tokens, where the 500-request default would read as an instant breach
+    defaultConfig: { monthlyLimit: undefined },
+    fromEnv: apiKeyFromEnv("OPENAI_ADMIN_KEY", "OPENAI_API_KEY"),
+    isConfigured: (cfg) => cfg.source === "local" || Boolean(cfg.apiKey?.trim()),
+    fetchUsage: (cfg, onUpdate) => (cfg.source === "local" ? fetchCodexCliUsage(cfg, onUpdate) : fetchOpenAIUsage(cfg, onUpdate)),
+  },
+  {
+    key: "claude",
+    label: "Claude",
+    accent: "#ff9d4d",
+    description: "Anthropic usage via the Admin API reports, or local Claude Code transcripts.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "Paste an Anthropic admin key (sk-ant-admin...)",
+      "Create one in Console → Settings → Admin keys",
+      "Or switch Data Source to Local to read Claude Code transcripts instead",
+    ],
+    sources: ["api", "local"],
+    defaultBillingMode: "quota",
+    // both sources count tokens, where the 500-request default would read as an instant breach
+    defaultConfig: { monthlyLimit: undefined },
+    fromEnv: apiKeyFromEnv("ANTHROPIC_ADMIN_KEY", "ANTHROPIC_API_KEY"),
+    isConfigured: (cfg) => cfg.source === "local" || Boolean(cfg.apiKey?.trim()),
+    fetchUsage: (cfg, onUpdate) => (cfg.source === "local" ? fetchClaudeCodeUsage(cfg, onUpdate) : fetchAnthropicUsage(cfg, onUpdate)),
+  },
+  keyProvider("zai", "Z.ai", "#8f7cff", "Z.ai usage (manual until API adapter is added).", "quota", "ZAI_API_KEY"),
+  keyProvider("minimax", "MiniMax", "#61e294", "MiniMax usage (manual until API adapter is added).", "quota", "MINIMAX_API_KEY"),
+  { ...keyProvider("vercel-ai", "Vercel AI SDK", "#d7d7d7", "PAYG mode: show full bar + cost.", "payg", "VERCEL_AI_GATEWAY_API_KEY"), shortLabel: "Vercel" },
+  {
+    key: "ollama",
+    label: "Ollama",
+    accent: "#ffffff",
+    description: "Local Ollama server status and request history from its server logs.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "Optional: API key for an authenticated/remote Ollama endpoint",
+      "Leave empty for a local server (set Base URL to change host)",
+    ],
+    defaultBillingMode: "payg",
+    fromEnv: (read) => ({ apiKey: read("OLLAMA_API_KEY"), baseUrl: read("OLLAMA_HOST") }),
+    isConfigured: () => true,
+    fetchUsage: fetchOllamaUsage,
+  },
+  {
+    key: "openrouter",
+    label: "OpenRouter",
+    accent: "#6933ff",
+    description: "Live OpenRouter spend, key limit and activity via the OpenRouter API.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "Paste an OpenRouter API key (sk-or-...)",
+      "Per-model activity needs a provisioning key from openrouter.ai/settings/provisioning-keys",
+    ],
+    defaultBillingMode: "payg",
+    fromEnv: apiKeyFromEnv("OPENROUTER_API_KEY"),
+    isConfigured: (cfg) => Boolean(cfg.apiKey?.trim()),
+    fetchUsage: fetchOpenRouterUsage,
+  },
+  keyProvider("cursor", "Cursor", "#5ed7ff", "Cursor usage (manual until API adapter is added).", "payg", "CURSOR_API_KEY"),
+  {
+    ...keyProvider("antigravity", "Antigravity (Google)", "#4285f4", "Google Antigravity usage (manual until API adapter is added).", "payg", "ANTIGRAVITY_API_KEY"),
+    shortLabel: "Antigravity",
+  },
+  {
+    key: "opencode",
+    label: "OpenCode",
+    accent: "#ff3e00",
+    description: "OpenCode usage and cost read from its local message storage.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "No key needed: usage is read from ~/.local/share/opencode/storage",
+      "Set Data Directory to point at a different storage/message folder",
+    ],
+    sources: ["local"],
+    defaultBillingMode: "payg",
+    fromEnv: apiKeyFromEnv("OPENCODE_API_KEY"),
+    isConfigured: () => true,
+    fetchUsage: fetchOpenCodeUsage,
+  },
+  {
+    key: "custom",
+    label: "Custom",
+    accent: "#c792ea",
+    description: "Any HTTP/JSON usage endpoint, mapped with selectors under agents.custom.options.",
+    supportsLiveFetch: true,
+    credentialName: "apiKey",
+    credentialInstructions: [
+      "Optional: key substituted for {apiKey} in the URL, headers and body",
+      "The endpoint and selectors are set under agents.custom.options in the config file",
+    ],
+    defaultBillingMode: "payg",
+    optionsSchema: customOptionsSchema,
+    settingsFields: ["enabled", "billingMode", "credential", "accentColor", "monthlyLimit", "costLimit", "dailyAllowance", "cycleStartDay", "cycleTimeZone"],
+    isConfigured: (cfg) => parseCustomOptions(cfg) !== undefined,
+    fetchUsage: fetchCustomUsage,
+  },
 ];
 
+// Config defaults, snapshots and settings rows are all derived from this list, so a definition here is all a new
+// provider needs
+export function registerProvider(provider: AgentProvider): void {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(provider.key)) {
+    throw new Error(`Invalid provider key: ${provider.key}`);
+  }
+  if (PROVIDERS.some((existing) => existing.key === provider.key)) {
+    throw new Error(`Provider already registered: ${provider.key}`);
+  }
+
+  PROVIDERS.push(provider);
+}
+
 export function getProvider(key: AgentKey): AgentProvider {
   const found = PROVIDERS.find((provider) => provider.key === key);
   if (!found) {
@@ -0,0 +1,285 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { resolveBillingCycle } from "../cycle";
+import type { AgentConfig, DailyUsagePoint, UsageBreakdownItem, UsageSample } from "../types";
+import { estimateCost, type TokenCounts } from "./pricing";
+import { addDailyUsage, addUsage, resolveLookbackDays, sortedBreakdown, sortedDaily, toRecord, type JsonRecord } from "./shared";
+
+export interface LocalUsageEntry extends TokenCounts {
+  // Used to drop duplicates when the same message is logged in several files (resumed sessions)
+  id?: string;
+  timestamp: string;
+  model: string;
+  cost?: number;
+}
+
+// Per-file scratch space for parsers that need context from earlier lines (e.g. the active model)
+export type LineParser = (record: JsonRecord, fileState: JsonRecord) => LocalUsageEntry | undefined;
+
+export interface LocalUsageSummary {
+  used: number;
+  cost: number;
+  entries: number;
+  tokens: TokenCounts;
+  breakdown: UsageBreakdownItem[];
+  daily: DailyUsagePoint[];
+  samples: UsageSample[];
+}
+
+interface CachedFile {
+  size: number;
+  mtimeMs: number;
+  offset: number;
+  fileState: JsonRecord;
+  entries: LocalUsageEntry[];
+}
+
+// Survives across refreshes so only new or appended files are re-read
+const FILE_CACHE = new Map<string, CachedFile>();
+const YIELD_EVERY_FILES = 25;
+
+export function listFiles(root: string, extension: string): string[] {
+  if (!existsSync(root)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  const walk = (dir: string): void => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.name.endsWith(extension)) {
+        files.push(path);
+      }
+    }
+  };
+
+  walk(root);
+  return files.sort();
+}
+
+async function readAppended(path: string, cached: CachedFile, size: number): Promise<string> {
+  if (size <= cached.offset) {
+    return "";
+  }
+
+  const buffer = Buffer.from(await Bun.file(path).slice(cached.offset, size).arrayBuffer());
+  const lastNewline = buffer.lastIndexOf(10);
+  if (lastNewline < 0) {
+    // a partially written line; pick it up on the next scan
+    return "";
+  }
+
+  cached.offset += lastNewline + 1;
+  return buffer.subarray(0, lastNewline + 1).toString("utf8");
+}
+
+export async function scanJsonlFiles(
+  cacheKey: string,
+  files: string[],
+  parse: LineParser,
+  onProgress?: (added: LocalUsageEntry[], done: number, total: number) => void,
+): Promise<LocalUsageEntry[]> {
+  const all: LocalUsageEntry[] = [];
+  let reported = 0;
+
+  for (let index = 0; index < files.length; index += 1) {
+    const path = files[index];
+    if (!path) {
+      continue;
+    }
+
+    let stat;
+    try {
+      stat = statSync(path);
+    } catch {
+      continue;
+    }
+
+    const key = `${cacheKey}:${path}`;
+    let cached = FILE_CACHE.get(key);
+    if (!cached || stat.size < cached.size) {
+      // new file, or truncated/rewritten: parse from scratch
+      cached = { size: 0, mtimeMs: 0, offset: 0, fileState: {}, entries: [] };
+      FILE_CACHE.set(key, cached);
+    }
+
+    if (cached.size !== stat.size || cached.mtimeMs !== stat.mtimeMs) {
+      const text = await readAppended(path, cached, stat.size);
+      for (const line of text.split("\n")) {
+        const trimmed = line.trim();
+        if (!trimmed) {
+          continue;
+        }
+
+        let record: JsonRecord | null;
+        try {
+          record = toRecord(JSON.parse(trimmed));
+        } catch {
+          continue;
+        }
+
+        const entry = record ? parse(record, cached.fileState) : undefined;
+        if (entry) {
+          cached.entries.push(entry);
+        }
+      }
+
+      cached.size = stat.size;
+      cached.mtimeMs = stat.mtimeMs;
+    }
+
+    all.push(...cached.entries);
+
+    if ((index + 1) % YIELD_EVERY_FILES === 0) {
+      onProgress?.(all.slice(reported), index + 1, files.length);
+      reported = all.length;
+      // let the UI breathe while large directories are scanned
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  onProgress?.(all.slice(reported), files.length, files.length);
+  return all;
+}
+
+// Whole-file JSON variant for stores that write one document per message
+export async function scanJsonFiles(
+  cacheKey: string,
+  files: string[],
+  parse: LineParser,
+  onProgress?: (added: LocalUsageEntry[], done: number, total: number) => void,
+): Promise<LocalUsageEntry[]> {
+  const all: LocalUsageEntry[] = [];
+  let reported = 0;
+
+  for (let index = 0; index < files.length; index += 1) {
+    const path = files[index];
+    if (!path) {
+      continue;
+    }
+
+    let stat;
+    try {
+      stat = statSync(path);
+    } catch {
+      continue;
+    }
+
+    const key = `${cacheKey}:${path}`;
+    let cached = FILE_CACHE.get(key);
+    if (!cached || cached.size !== stat.size || cached.mtimeMs !== stat.mtimeMs) {
+      cached = { size: stat.size, mtimeMs: stat.mtimeMs, offset: stat.size, fileState: {}, entries: [] };
+      try {
+        const record = toRecord(JSON.parse(await Bun.file(path).text()));
+        const entry = record ? parse(record, cached.fileState) : undefined;
+        if (entry) {
+          cached.entries.push(entry);
+        }
+      } catch {
+        // ignore files caught mid-write; they are retried on the next scan
+        cached.mtimeMs = 0;
+      }
+      FILE_CACHE.set(key, cached);
+    }
+
+    all.push(...cached.entries);
+
+    if ((index + 1) % (YIELD_EVERY_FILES * 20) === 0) {
+      onProgress?.(all.slice(reported), index + 1, files.length);
+      reported = all.length;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  onProgress?.(all.slice(reported), files.length, files.length);
+  return all;
+}
+
+export function entryTokens(entry: TokenCounts): number {
+  return entry.inputTokens + entry.outputTokens + entry.cacheWriteTokens + entry.cacheReadTokens;
+}
+
+export interface UsageTally {
+  add(entries: LocalUsageEntry[]): void;
+  summary(): LocalUsageSummary;
+}
+
+// Running totals, so each progress update during a scan only costs the entries added since the last one
+export function createUsageTally(cfg: AgentConfig, now = new Date()): UsageTally {
+  const lookbackDays = resolveLookbackDays(cfg);
+  const cycleStart = resolveBillingCycle(cfg, now).start.getTime();
+  const historyStartKey = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (lookbackDays - 1)))
+    .toISOString()
+    .slice(0, 10);
+
+  // per-message samples only need to cover the longest built-in window (a month or a week)
+  const samplesStart = Math.min(cycleStart, Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1), now.getTime() - 8 * 86400000);
+  const samples: UsageSample[] = [];
+  const seen = new Set<string>();
+  const byDay = new Map<string, { used: number; cost: number }>();
+  const byModel = new Map<string, UsageBreakdownItem>();
+  const tokens: TokenCounts = { inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 };
+  let used = 0;
+  let cost = 0;
+  let count = 0;
+
+  const add = (entries: LocalUsageEntry[]): void => {
+    for (const entry of entries) {
+      if (entry.id) {
+        if (seen.has(entry.id)) {
+          continue;
+        }
+        seen.add(entry.id);
+      }
+
+      const parsed = new Date(entry.timestamp);
+      if (!Number.isFinite(parsed.getTime())) {
+        continue;
+      }
+
+      const day = parsed.toISOString().slice(0, 10);
+      const total = entryTokens(entry);
+      const amount = entry.cost ?? estimateCost(entry.model, entry);
+
+      if (day >= historyStartKey) {
+        addDailyUsage(byDay, day, total, amount);
+      }
+
+      if (parsed.getTime() >= samplesStart) {
+        samples.push({ timestamp: parsed.toISOString(), used: total, cost: amount });
+      }
+
+      if (parsed.getTime() >= cycleStart) {
+        used += total;
+        cost += amount;
+        count += 1;
+        tokens.inputTokens += entry.inputTokens;
+        tokens.outputTokens += entry.outputTokens;
+        tokens.cacheWriteTokens += entry.cacheWriteTokens;
+        tokens.cacheReadTokens += entry.cacheReadTokens;
+        addUsage(byModel, entry.model, total, amount);
+      }
+    }
+  };
+
+  const summary = (): LocalUsageSummary => ({
+    used,
+    cost,
+    entries: count,
+    tokens: { ...tokens },
+    breakdown: sortedBreakdown(byModel),
+    daily: sortedDaily(byDay),
+    samples: [...samples],
+  });
+
+  return { add, summary };
+}
@@ -0,0 +1,272 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { resolveBillingCycle } from "../cycle";
+import type { AgentConfig, UsageBreakdownItem, UsageResult } from "../types";
+import {
+  addDailyUsage,
+  addUsage,
+  LOCAL_REQUEST_TIMEOUT_MS,
+  resolveLookbackDays,
+  sortedBreakdown,
+  sortedDaily,
+  toArray,
+  toRecord,
+  truncateBody,
+} from "./shared";
+
+const OLLAMA_DEFAULT_BASE = "http://localhost:11434";
+const JOURNAL_TIMEOUT_MS = 10000;
+const OLLAMA_INFERENCE_PATHS = [
+  "/api/chat",
+  "/api/generate",
+  "/api/embed",
+  "/api/embeddings",
+  "/v1/chat/completions",
+  "/v1/completions",
+  "/v1/embeddings",
+];
+
+const ollamaPsSchema = z.object({
+  models: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        model: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+const ollamaVersionSchema = z.object({
+  version: z.string().optional(),
+});
+
+// [GIN] 2025/01/15 - 10:23:45 | 200 |  2.345s |  127.0.0.1 | POST  "/api/chat"
+const GIN_LINE = /^\[GIN\]\s+(\d{4})\/(\d{2})\/(\d{2})\s+-\s+[\d:]+\s+\|\s+(\d{3})\s+\|[^|]*\|[^|]*\|\s+(\w+)\s+"([^"?]+)/;
+const MODEL_BLOB = /--model\s+\S*?sha256[-:]([0-9a-f]{12,64})/;
+const MODEL_GENERAL_NAME = /general\.name\s+str\s+=\s+(.+)$/;
+
+// OLLAMA_HOST reaches cfg.baseUrl through the provider's fromEnv
+function resolveBaseUrl(cfg: AgentConfig): string {
+  const host = cfg.baseUrl?.trim() || OLLAMA_DEFAULT_BASE;
+  const withScheme = /^https?:\/\//i.test(host) ? host : `http://${host}`;
+  return withScheme.replace(/\/+$/, "");
+}
+
+function resolveLogDir(cfg: AgentConfig): string {
+  return cfg.dataDir?.trim() || join(homedir(), ".ollama", "logs");
+}
+
+function resolveModelsDir(): string {
+  return Bun.env.OLLAMA_MODELS?.trim() || join(homedir(), ".ollama", "models");
+}
+
+// Map model weight blobs (sha256) back to the "name:tag" the user pulled, using the local manifests
+function loadBlobNames(modelsDir: string): Map<string, string> {
+  const names = new Map<string, string>();
+  const root = join(modelsDir, "manifests");
+  if (!existsSync(root)) {
+    return names;
+  }
+
+  const walk = (dir: string, parts: string[]): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(path, [...parts, entry.name]);
+        continue;
+      }
+
+      // parts = [host, namespace, model]; the file name is the tag
+      const [, namespace, model] = parts;
+      if (!model) {
+        continue;
+      }
+
+      try {
+        const manifest = toRecord(JSON.parse(readFileSync(path, "utf8")));
+        for (const layerValue of toArray(manifest?.layers)) {
+          const layer = toRecord(layerValue);
+          const digest = typeof layer?.digest === "string" ? layer.digest : "";
+          if (layer?.mediaType === "application/vnd.ollama.image.model" && digest.startsWith("sha256:")) {
+            const label = namespace === "library" ? `${model}:${entry.name}` : `${namespace}/${model}:${entry.name}`;
+            names.set(digest.slice(7), label);
+          }
+        }
+      } catch {
+        // ignore unreadable manifests
+      }
+    }
+  };
+
+  walk(root, []);
+  return names;
+}
+
+function lookupBlob(names: Map<string, string>, hash: string): string | undefined {
+  for (const [digest, label] of names) {
+    if (digest.startsWith(hash) || hash.startsWith(digest)) {
+      return label;
+    }
+  }
+
+  return undefined;
+}
+
+function listLogFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  // server-2.log, server-1.log, server.log: oldest rotation first so model attribution carries forward
+  return readdirSync(dir)
+    .filter((name) => /^server(-\d+)?\.log$/.test(name))
+    .map((name) => join(dir, name))
+    .sort((a, b) => statSync(a).mtimeMs - statSync(b).mtimeMs);
+}
+
+// Linux installs run Ollama as a systemd service, which logs to journald instead of ~/.ollama/logs
+async function readJournal(sinceKey: string): Promise<string | undefined> {
+  try {
+    const child = Bun.spawn(["journalctl", "-u", "ollama", "--no-pager", "-o", "cat", "--since", sinceKey], {
+      stdout: "pipe",
+      stderr: "ignore",
+      timeout: JOURNAL_TIMEOUT_MS,
+    });
+    const [stdout, code] = await Promise.all([new Response(child.stdout).text(), child.exited]);
+    return code === 0 && stdout.trim() ? stdout : undefined;
+  } catch {
+    // no journalctl on this system
+    return undefined;
+  }
+}
+
+async function fetchOllama<S extends z.ZodTypeAny>(baseUrl: string, cfg: AgentConfig, path: string, schema: S): Promise<z.infer<S>> {
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    "User-Agent": "usage-limits-opentui",
+  };
+
+  if (cfg.apiKey?.trim()) {
+    headers.Authorization = `Bearer ${cfg.apiKey.trim()}`;
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, { headers, signal: AbortSignal.timeout(LOCAL_REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Ollama ${response.status} for ${path}: ${truncateBody(body) || response.statusText}`);
+  }
+
+  const parsed = schema.safeParse((await response.json()) as unknown);
+  if (!parsed.success) {
+    throw new Error(`Ollama ${path} returned unexpected shape.`);
+  }
+
+  return parsed.data;
+}
+
+export async function fetchOllamaUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const baseUrl = resolveBaseUrl(cfg);
+  const logDir = resolveLogDir(cfg);
+  const cycleStartKey = resolveBillingCycle(cfg).startKey;
+
+  const details: string[] = [`Server: ${baseUrl}`];
+  let serverOnline = false;
+  const loadedModels: string[] = [];
+
+  try {
+    const version = await fetchOllama(baseUrl, cfg, "/api/version", ollamaVersionSchema);
+    const ps = await fetchOllama(baseUrl, cfg, "/api/ps", ollamaPsSchema);
+    serverOnline = true;
+    for (const model of ps.models ?? []) {
+      loadedModels.push(model.name ?? model.model ?? "unknown");
+    }
+    details.push(`Version: ${version.version ?? "unknown"} · loaded: ${loadedModels.length > 0 ? loadedModels.join(", ") : "none"}`);
+  } catch (error) {
+    details.push(`Server offline: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const logFiles = listLogFiles(logDir);
+  const sinceKey = new Date(Date.now() - resolveLookbackDays(cfg) * 86400000).toISOString().slice(0, 10);
+  const journal = logFiles.length === 0 && !cfg.dataDir?.trim() && process.platform === "linux" ? await readJournal(sinceKey) : undefined;
+  if (logFiles.length === 0 && journal === undefined) {
+    // without logs every count would read as zero, which looks like real (idle) usage
+    const server = serverOnline ? "" : `Ollama not reachable at ${baseUrl}; `;
+    throw new Error(`${server}no request history: no server logs in ${logDir}${process.platform === "linux" ? " and nothing readable from journalctl -u ollama" : ""}.`);
+  }
+
+  const blobNames = loadBlobNames(resolveModelsDir());
+  const byDay = new Map<string, { used: number; cost: number }>();
+  const byModel = new Map<string, UsageBreakdownItem>();
+  let used = 0;
+  let total = 0;
+
+  // The request lines don't say which runner served them, so each is credited to the model loaded most recently
+  let currentModel = loadedModels.length === 1 ? loadedModels[0] : undefined;
+
+  const scan = (text: string): void => {
+    for (const line of text.split(/\r?\n/)) {
+      const blob = line.match(MODEL_BLOB);
+      if (blob?.[1]) {
+        // a new load starts over, so the general.name that follows can name a blob without a manifest
+        currentModel = lookupBlob(blobNames, blob[1]);
+        continue;
+      }
+
+      const general = line.match(MODEL_GENERAL_NAME);
+      if (general?.[1] && !currentModel) {
+        currentModel = general[1].trim();
+        continue;
+      }
+
+      const gin = line.match(GIN_LINE);
+      if (!gin || gin[5] !== "POST" || !gin[6] || !OLLAMA_INFERENCE_PATHS.includes(gin[6])) {
+        continue;
+      }
+
+      const status = Number(gin[4]);
+      if (status < 200 || status >= 300) {
+        continue;
+      }
+
+      const day = `${gin[1]}-${gin[2]}-${gin[3]}`;
+      addDailyUsage(byDay, day, 1, 0);
+      total += 1;
+
+      if (day >= cycleStartKey) {
+        used += 1;
+        addUsage(byModel, currentModel ?? "unknown", 1, 0);
+      }
+    }
+
+    onUpdate?.({ used, cost: 0, breakdown: sortedBreakdown(byModel), daily: sortedDaily(byDay) });
+  };
+
+  if (journal !== undefined) {
+    scan(journal);
+  }
+  for (const file of logFiles) {
+    try {
+      scan(readFileSync(file, "utf8"));
+    } catch {
+      // skip rotations we can't read
+    }
+  }
+
+  const source = journal !== undefined ? "journalctl -u ollama" : `${logFiles.length} log file(s) in ${logDir}`;
+  details.push(`History: ${source} (${total} requests over ${byDay.size} days)`);
+  details.push("Per-model split is approximate: requests are credited to the most recently loaded model.");
+  details.push("Local models are free; cost stays at $0.");
+
+  return {
+    used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "req",
+    cost: 0,
+    details,
+    breakdown: sortedBreakdown(byModel),
+    daily: sortedDaily(byDay),
+  };
+}
@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { resolveBillingCycle } from "../cycle";
+import type { AgentConfig, UsageBreakdownItem, UsageResult } from "../types";
+import {
+  addDailyUsage,
+  addUsage,
+  ensureConfigured,
+  normalizeDayKey,
+  REQUEST_TIMEOUT_MS,
+  resolveLookbackDays,
+  sortedBreakdown,
+  sortedDaily,
+  truncateBody,
+  valueOrZero,
+} from "./shared";
+
+const OPENAI_API_BASE = "https://api.openai.com";
+const OPENAI_PAGE_LIMIT = 31;
+const OPENAI_MAX_PAGES = 24;
+
+const openaiCompletionsResultSchema = z.object({
+  model: z.string().nullish(),
+  input_tokens: z.number().optional(),
+  output_tokens: z.number().optional(),
+  input_cached_tokens: z.number().optional(),
+  num_model_requests: z.number().optional(),
+});
+
+const openaiCostResultSchema = z.object({
+  line_item: z.string().nullish(),
+  amount: z
+    .object({
+      value: z.number().optional(),
+      currency: z.string().optional(),
+    })
+    .optional(),
+});
+
+function openaiPageSchema<T extends z.ZodTypeAny>(result: T) {
+  return z.object({
+    data: z.array(
+      z.object({
+        start_time: z.number(),
+        end_time: z.number().optional(),
+        results: z.array(result).optional(),
+      }),
+    ),
+    has_more: z.boolean().optional(),
+    next_page: z.string().nullish(),
+  });
+}
+
+const openaiCompletionsPageSchema = openaiPageSchema(openaiCompletionsResultSchema);
+const openaiCostsPageSchema = openaiPageSchema(openaiCostResultSchema);
+
+type OpenAICompletionsPage = z.infer<typeof openaiCompletionsPageSchema>;
+type OpenAICostsPage = z.infer<typeof openaiCostsPageSchema>;
+
+function resolveBaseUrl(cfg: AgentConfig): string {
+  return (cfg.baseUrl?.trim() || OPENAI_API_BASE).replace(/\/+$/, "");
+}
+
+// Cost line items look like "gpt-4o-2024-08-06, input"; the model is everything before the comma.
+function modelFromLineItem(lineItem: string | null | undefined): string {
+  const value = lineItem?.split(",")[0]?.trim();
+  return value || "other";
+}
+
+async function fetchOpenAIPage<S extends z.ZodTypeAny>(
+  baseUrl: string,
+  apiKey: string,
+  path: string,
+  schema: S,
+  params: Record<string, string | string[]>,
+): Promise<z.infer<S>> {
+  const endpoint = new URL(`${baseUrl}${path}`);
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      endpoint.searchParams.append(name, item);
+    }
+  }
+
+  const response = await fetch(endpoint, {
+    headers: {
+      Accept: "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "User-Agent": "usage-limits-opentui",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OpenAI API ${response.status} for ${path}: ${truncateBody(body) || response.statusText}`);
+  }
+
+  const payload = (await response.json()) as unknown;
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`OpenAI ${path} returned unexpected shape.`);
+  }
+
+  return parsed.data;
+}
+
+export async function fetchOpenAIUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const apiKey = ensureConfigured(cfg.apiKey, "OpenAI admin key");
+  const baseUrl = resolveBaseUrl(cfg);
+  const lookbackDays = resolveLookbackDays(cfg);
+
+  const now = new Date();
+  const cycle = resolveBillingCycle(cfg, now);
+  const cycleStart = cycle.start;
+  const cycleStartKey = cycle.startKey;
+  const historyStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (lookbackDays - 1)));
+  const start = historyStart < cycleStart ? historyStart : cycleStart;
+  const startTime = String(Math.floor(start.getTime() / 1000));
+
+  const byDay = new Map<string, { used: number; cost: number }>();
+  const byModel = new Map<string, UsageBreakdownItem>();
+  let used = 0;
+  let cost = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let pages = 0;
+
+  const report = (): void => {
+    onUpdate?.({
+      used,
+      cost,
+      breakdown: sortedBreakdown(byModel),
+      daily: sortedDaily(byDay),
+    });
+  };
+
+  // Requests and tokens per model, bucketed per day (newest pages stream in as they arrive)
+  let page: string | undefined;
+  for (let i = 0; i < OPENAI_MAX_PAGES; i += 1) {
+    const result: OpenAICompletionsPage = await fetchOpenAIPage(baseUrl, apiKey, "/v1/organization/usage/completions", openaiCompletionsPageSchema, {
+      start_time: startTime,
+      bucket_width: "1d",
+      group_by: ["model"],
+      limit: String(OPENAI_PAGE_LIMIT),
+      ...(page ? { page } : {}),
+    });
+    pages += 1;
+
+    for (const bucket of result.data) {
+      const day = normalizeDayKey(new Date(bucket.start_time * 1000).toISOString());
+      for (const row of bucket.results ?? []) {
+        const requests = valueOrZero(row.num_model_requests);
+        addDailyUsage(byDay, day, requests, 0);
+
+        if (day && day >= cycleStartKey) {
+          used += requests;
+          inputTokens += valueOrZero(row.input_tokens);
+          outputTokens += valueOrZero(row.output_tokens);
+          addUsage(byModel, row.model ?? "other", requests, 0);
+        }
+      }
+    }
+
+    report();
+    if (!result.has_more || !result.next_page) {
+      break;
+    }
+    page = result.next_page;
+  }
+
+  // Dollar costs per line item, attributed back to the model prefix
+  page = undefined;
+  for (let i = 0; i < OPENAI_MAX_PAGES; i += 1) {
+    const result: OpenAICostsPage = await fetchOpenAIPage(baseUrl, apiKey, "/v1/organization/costs", openaiCostsPageSchema, {
+      start_time: startTime,
+      bucket_width: "1d",
+      group_by: ["line_item"],
+      limit: String(OPENAI_PAGE_LIMIT),
+      ...(page ? { page } : {}),
+    });
+    pages += 1;
+
+    for (const bucket of result.data) {
+      const day = normalizeDayKey(new Date(bucket.start_time * 1000).toISOString());
+      for (const row of bucket.results ?? []) {
+        const amount = valueOrZero(row.amount?.value);
+        addDailyUsage(byDay, day, 0, amount);
+
+        if (day && day >= cycleStartKey) {
+          cost += amount;
+          addUsage(byModel, modelFromLineItem(row.line_item), 0, amount);
+        }
+      }
+    }
+
+    report();
+    if (!result.has_more || !result.next_page) {
+      break;
+    }
+    page = result.next_page;
+  }
+
+  const breakdown = sortedBreakdown(byModel);
+  const details: string[] = [
+    `Current cycle: ${cycle.startKey} to ${cycle.endKey}`,
+    `Tokens (current cycle): ${inputTokens} in / ${outputTokens} out`,
+    `Trend window: ${lookbackDays} days (${byDay.size} days found, ${pages} pages)`,
+    "Endpoint: /v1/organization/usage/completions + /v1/organization/costs",
+  ];
+
+  if (breakdown.length === 0) {
+    details.push("No OpenAI usage rows returned for current cycle.");
+  }
+
+  return {
+    used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "req",
+    cost,
+    details,
+    breakdown,
+    daily: sortedDaily(byDay),
+  };
+}
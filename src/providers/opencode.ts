@@ -0,0 +1,95 @@
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { AgentConfig, UsageResult } from "../types";
+import { createUsageTally, listFiles, scanJsonFiles, type LineParser } from "./local-logs";
+import { pickNumber, pickString, toRecord } from "./shared";
+
+function resolveMessageDir(cfg: AgentConfig): string {
+  if (cfg.dataDir?.trim()) {
+    return cfg.dataDir.trim();
+  }
+
+  const dataHome = Bun.env.XDG_DATA_HOME?.trim() || join(homedir(), ".local", "share");
+  return join(dataHome, "opencode", "storage", "message");
+}
+
+// storage/message/<sessionID>/<messageID>.json:
+// { id, role, providerID, modelID, cost, time: { created }, tokens: { input, output, reasoning, cache: { read, write } } }
+// Older releases nest the assistant fields under metadata.assistant.
+const parseOpenCodeMessage: LineParser = (record) => {
+  const legacy = toRecord(toRecord(record.metadata)?.assistant);
+  const source = legacy ?? record;
+  if (!legacy && pickString(record, ["role"]) !== "assistant") {
+    return undefined;
+  }
+
+  const tokens = toRecord(source.tokens);
+  const time = toRecord(record.time) ?? toRecord(toRecord(record.metadata)?.time);
+  const created = time ? pickNumber(time, ["created", "completed"]) : undefined;
+  if (!tokens || typeof created !== "number") {
+    return undefined;
+  }
+
+  const cache = toRecord(tokens.cache);
+  const providerId = pickString(source, ["providerID"]) ?? "unknown";
+  const modelId = pickString(source, ["modelID"]) ?? "unknown";
+
+  return {
+    id: pickString(record, ["id"]),
+    timestamp: new Date(created).toISOString(),
+    model: `${providerId}/${modelId}`,
+    inputTokens: pickNumber(tokens, ["input"]) ?? 0,
+    outputTokens: (pickNumber(tokens, ["output"]) ?? 0) + (pickNumber(tokens, ["reasoning"]) ?? 0),
+    cacheWriteTokens: cache ? (pickNumber(cache, ["write"]) ?? 0) : 0,
+    cacheReadTokens: cache ? (pickNumber(cache, ["read"]) ?? 0) : 0,
+    cost: pickNumber(source, ["cost"]),
+  };
+};
+
+export async function fetchOpenCodeUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const dir = resolveMessageDir(cfg);
+  if (!existsSync(dir)) {
+    throw new Error(`No OpenCode message storage found (${dir}).`);
+  }
+
+  const files = listFiles(dir, ".json");
+
+  const tally = createUsageTally(cfg);
+  await scanJsonFiles("opencode", files, parseOpenCodeMessage, (added) => {
+    tally.add(added);
+    const summary = tally.summary();
+    onUpdate?.({ used: summary.used, cost: summary.cost, breakdown: summary.breakdown, daily: summary.daily });
+  });
+
+  const summary = tally.summary();
+  const { tokens } = summary;
+
+  // Roll model rows up to their upstream provider for the detail pane
+  const byProvider = new Map<string, number>();
+  for (const item of summary.breakdown) {
+    const provider = item.label.split("/")[0] ?? "unknown";
+    byProvider.set(provider, (byProvider.get(provider) ?? 0) + item.cost);
+  }
+
+  const providerLine = [...byProvider.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([provider, cost]) => `${provider} $${cost.toFixed(2)}`)
+    .join(", ");
+
+  return {
+    used: summary.used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "tok",
+    cost: summary.cost,
+    details: [
+      `Source: OpenCode storage (${files.length} messages in ${dir})`,
+      `Assistant messages (current cycle): ${summary.entries}`,
+      `Tokens (current cycle): ${tokens.inputTokens} in / ${tokens.outputTokens} out / ${tokens.cacheWriteTokens} cache write / ${tokens.cacheReadTokens} cache read`,
+      `Upstream providers: ${providerLine || "none"}`,
+    ],
+    breakdown: summary.breakdown,
+    daily: summary.daily,
+    samples: summary.samples,
+  };
+}
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { isCalendarCycle, resolveBillingCycle } from "../cycle";
+import type { AgentConfig, UsageBreakdownItem, UsageResult } from "../types";
+import {
+  addDailyUsage,
+  addUsage,
+  ensureConfigured,
+  normalizeDayKey,
+  REQUEST_TIMEOUT_MS,
+  sortedBreakdown,
+  sortedDaily,
+  truncateBody,
+  valueOrZero,
+} from "./shared";
+
+const OPENROUTER_API_BASE = "https://openrouter.ai/api";
+
+const openrouterKeySchema = z.object({
+  data: z.object({
+    label: z.string().nullish(),
+    usage: z.number().optional(),
+    usage_daily: z.number().optional(),
+    usage_weekly: z.number().optional(),
+    usage_monthly: z.number().optional(),
+    limit: z.number().nullish(),
+    limit_remaining: z.number().nullish(),
+    is_free_tier: z.boolean().optional(),
+  }),
+});
+
+const openrouterCreditsSchema = z.object({
+  data: z.object({
+    total_credits: z.number().optional(),
+    total_usage: z.number().optional(),
+  }),
+});
+
+const openrouterActivitySchema = z.object({
+  data: z.array(
+    z.object({
+      date: z.string(),
+      model: z.string().nullish(),
+      provider_name: z.string().nullish(),
+      usage: z.number().optional(),
+      byok_usage_inference: z.number().optional(),
+      requests: z.number().optional(),
+      prompt_tokens: z.number().optional(),
+      completion_tokens: z.number().optional(),
+    }),
+  ),
+});
+
+function resolveBaseUrl(cfg: AgentConfig): string {
+  return (cfg.baseUrl?.trim() || OPENROUTER_API_BASE).replace(/\/+$/, "");
+}
+
+async function fetchOpenRouter<S extends z.ZodTypeAny>(baseUrl: string, apiKey: string, path: string, schema: S): Promise<z.infer<S>> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    headers: {
+      Accept: "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "User-Agent": "usage-limits-opentui",
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OpenRouter API ${response.status} for ${path}: ${truncateBody(body) || response.statusText}`);
+  }
+
+  const payload = (await response.json()) as unknown;
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`OpenRouter ${path} returned unexpected shape.`);
+  }
+
+  return parsed.data;
+}
+
+export async function fetchOpenRouterUsage(cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void): Promise<UsageResult> {
+  const apiKey = ensureConfigured(cfg.apiKey, "OpenRouter API key");
+  const baseUrl = resolveBaseUrl(cfg);
+  const cycleStartKey = resolveBillingCycle(cfg).startKey;
+
+  const key = (await fetchOpenRouter(baseUrl, apiKey, "/v1/key", openrouterKeySchema)).data;
+  const keyLimit = typeof key.limit === "number" && key.limit > 0 ? key.limit : undefined;
+  let cost = valueOrZero(key.usage_monthly ?? key.usage);
+
+  onUpdate?.({ cost, costLimit: keyLimit });
+
+  const details: string[] = [
+    `Key: ${key.label ?? "unnamed"}${key.is_free_tier ? " (free tier)" : ""}`,
+    `Key usage: $${valueOrZero(key.usage_daily).toFixed(2)} today / $${valueOrZero(key.usage_weekly).toFixed(2)} week / $${valueOrZero(key.usage).toFixed(2)} all time`,
+    keyLimit !== undefined ? `Key limit: $${keyLimit.toFixed(2)} ($${valueOrZero(key.limit_remaining ?? undefined).toFixed(2)} remaining)` : "Key limit: none",
+  ];
+
+  try {
+    const credits = (await fetchOpenRouter(baseUrl, apiKey, "/v1/credits", openrouterCreditsSchema)).data;
+    const remaining = valueOrZero(credits.total_credits) - valueOrZero(credits.total_usage);
+    details.push(`Credits: $${remaining.toFixed(2)} remaining of $${valueOrZero(credits.total_credits).toFixed(2)}`);
+  } catch {
+    details.push("Credits: unavailable for this key");
+  }
+
+  // Per-day, per-model activity covers the last 30 completed UTC days and needs a provisioning key
+  const byDay = new Map<string, { used: number; cost: number }>();
+  const byModel = new Map<string, UsageBreakdownItem>();
+  let used = 0;
+  let activityCost = 0;
+
+  try {
+    const activity = (await fetchOpenRouter(baseUrl, apiKey, "/v1/activity", openrouterActivitySchema)).data;
+    for (const row of activity) {
+      const day = normalizeDayKey(row.date);
+      const requests = valueOrZero(row.requests);
+      const amount = valueOrZero(row.usage) + valueOrZero(row.byok_usage_inference);
+      addDailyUsage(byDay, day, requests, amount);
+
+      if (day && day >= cycleStartKey) {
+        used += requests;
+        activityCost += amount;
+        addUsage(byModel, row.model ?? "other", requests, amount);
+      }
+    }
+    details.push(`Activity: ${activity.length} rows over ${byDay.size} days`);
+  } catch (error) {
+    details.push(`Activity: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // usage_monthly follows the calendar month, so a custom billing cycle is summed from activity instead
+  if ((key.usage_monthly === undefined || !isCalendarCycle(cfg)) && activityCost > 0) {
+    cost = activityCost;
+  }
+
+  const breakdown = sortedBreakdown(byModel);
+  const daily = sortedDaily(byDay);
+  onUpdate?.({ used, cost, breakdown, daily });
+
+  details.push("Endpoint: /api/v1/key + /api/v1/credits + /api/v1/activity");
+
+  return {
+    used,
+    limit: cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined,
+    unit: "req",
+    cost,
+    costLimit: keyLimit,
+    details,
+    breakdown,
+    daily,
+  };
+}
@@ -0,0 +1,58 @@
+// Offline price table (USD per million tokens) used to estimate cost from local session logs.
+// Patterns are matched in order against the lower-cased model id, so keep specific entries first.
+
+export interface TokenPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+const PRICE_TABLE: Array<[RegExp, TokenPrice]> = [
+  [/opus-4-[5-9]/, { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 }],
+  [/opus/, { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  [/sonnet/, { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  [/haiku-4/, { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 }],
+  [/3-5-haiku|haiku-3-5/, { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }],
+  [/haiku/, { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }],
+  // OpenAI bills cached input at a discount and has no separate cache-write charge
+  [/gpt-5(\.\d+)?-mini/, { input: 0.25, output: 2, cacheWrite: 0, cacheRead: 0.025 }],
+  [/gpt-5(\.\d+)?-nano/, { input: 0.05, output: 0.4, cacheWrite: 0, cacheRead: 0.005 }],
+  [/gpt-5/, { input: 1.25, output: 10, cacheWrite: 0, cacheRead: 0.125 }],
+  [/codex-mini/, { input: 1.5, output: 6, cacheWrite: 0, cacheRead: 0.375 }],
+  [/gpt-4\.1-nano/, { input: 0.1, output: 0.4, cacheWrite: 0, cacheRead: 0.025 }],
+  [/gpt-4\.1-mini/, { input: 0.4, output: 1.6, cacheWrite: 0, cacheRead: 0.1 }],
+  [/gpt-4\.1/, { input: 2, output: 8, cacheWrite: 0, cacheRead: 0.5 }],
+  [/gpt-4o-mini/, { input: 0.15, output: 0.6, cacheWrite: 0, cacheRead: 0.075 }],
+  [/gpt-4o/, { input: 2.5, output: 10, cacheWrite: 0, cacheRead: 1.25 }],
+  [/^o4-mini/, { input: 1.1, output: 4.4, cacheWrite: 0, cacheRead: 0.275 }],
+  [/^o3/, { input: 2, output: 8, cacheWrite: 0, cacheRead: 0.5 }],
+];
+
+export function findPrice(model: string): TokenPrice | undefined {
+  // OpenCode ids carry the upstream provider ("openai/o3"); the anchored patterns need the bare model
+  const id = model.toLowerCase().slice(model.lastIndexOf("/") + 1);
+  return PRICE_TABLE.find(([pattern]) => pattern.test(id))?.[1];
+}
+
+export function estimateCost(model: string, tokens: TokenCounts): number {
+  const price = findPrice(model);
+  if (!price) {
+    return 0;
+  }
+
+  return (
+    (tokens.inputTokens * price.input +
+      tokens.outputTokens * price.output +
+      tokens.cacheWriteTokens * price.cacheWrite +
+      tokens.cacheReadTokens * price.cacheRead) /
+    1_000_000
+  );
+}
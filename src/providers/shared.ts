@@ -0,0 +1,197 @@
+import { resolveBillingCycle } from "../cycle";
+import type { AgentConfig, DailyUsagePoint, UsageBreakdownItem, UsageResult } from "../types";
+
+export type JsonRecord = Record<string, unknown>;
+
+export function ensureConfigured(value: string | undefined, fieldName: string): string {
+  const cleaned = value?.trim();
+  if (!cleaned) {
+    throw new Error(`Missing ${fieldName}`);
+  }
+
+  return cleaned;
+}
+
+export function valueOrZero(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+export function toRecord(value: unknown): JsonRecord | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  return value as JsonRecord;
+}
+
+export function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function pickString(record: JsonRecord, keys: readonly string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+
+  return undefined;
+}
+
+export function pickNumber(record: JsonRecord, keys: readonly string[]): number | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+export function normalizeDayKey(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const direct = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (direct) {
+    return `${direct[1]}-${direct[2]}-${direct[3]}`;
+  }
+
+  const parsed = new Date(trimmed);
+  if (!Number.isFinite(parsed.getTime())) {
+    return undefined;
+  }
+
+  return parsed.toISOString().slice(0, 10);
+}
+
+export function parseJsonOrNdjson(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+
+    const obj = toRecord(parsed);
+    if (!obj) {
+      return [];
+    }
+
+    const data = toArray(obj.data);
+    if (data.length > 0) {
+      return data;
+    }
+
+    const records = toArray(obj.records);
+    if (records.length > 0) {
+      return records;
+    }
+
+    return [obj];
+  } catch {
+    const rows: unknown[] = [];
+    for (const line of trimmed.split(/\r?\n/)) {
+      const value = line.trim();
+      if (!value) {
+        continue;
+      }
+      try {
+        rows.push(JSON.parse(value) as unknown);
+      } catch {
+        // ignore non-JSON lines
+      }
+    }
+
+    return rows;
+  }
+}
+
+export function truncateBody(body: string): string {
+  return body.length > 160 ? `${body.slice(0, 157)}...` : body;
+}
+
+export function addUsage(map: Map<string, UsageBreakdownItem>, label: string, used: number, cost: number): void {
+  const cleanLabel = label.trim() || "default";
+  const current = map.get(cleanLabel);
+  if (current) {
+    current.used += used;
+    current.cost += cost;
+    return;
+  }
+
+  map.set(cleanLabel, { label: cleanLabel, used, cost });
+}
+
+export function addDailyUsage(map: Map<string, { used: number; cost: number }>, day: string | undefined, used: number, cost: number): void {
+  if (!day) {
+    return;
+  }
+
+  const current = map.get(day) ?? { used: 0, cost: 0 };
+  current.used += used;
+  current.cost += cost;
+  map.set(day, current);
+}
+
+export function sortedBreakdown(map: Map<string, UsageBreakdownItem>): UsageBreakdownItem[] {
+  return [...map.values()].sort((a, b) => b.used - a.used || b.cost - a.cost);
+}
+
+export function sortedDaily(map: Map<string, { used: number; cost: number }>): DailyUsagePoint[] {
+  return [...map.entries()]
+    .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .map(([day, value]) => ({ day, used: value.used, cost: value.cost }));
+}
+
+export const DEFAULT_LOOKBACK_DAYS = 364;
+
+// Per HTTP request, so a stalled API fails its provider instead of holding up a refresh
+export const REQUEST_TIMEOUT_MS = 15000;
+// Local servers like Ollama answer quickly or not at all, so a stopped one gives up sooner
+export const LOCAL_REQUEST_TIMEOUT_MS = 3000;
+
+export function resolveLookbackDays(cfg: AgentConfig): number {
+  const value = cfg.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  return Math.max(1, Math.min(DEFAULT_LOOKBACK_DAYS, Math.trunc(value)));
+}
+
+export function makeManualUsage(label: string, cfg: AgentConfig): UsageResult {
+  const cycle = resolveBillingCycle(cfg);
+  // values typed in during an earlier cycle no longer describe this one
+  const stale = Boolean(cfg.manualCycle && cfg.manualCycle !== cycle.startKey);
+  const used = stale ? 0 : (cfg.manualUsed ?? 0);
+  const cost = stale ? 0 : (cfg.manualCost ?? 0);
+  const limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
+
+  const details: string[] = [
+    "Manual provider mode (live API integration can be added later).",
+    `Agent: ${label}`,
+    cfg.billingMode === "payg" ? "Billing mode: pay-as-you-go" : "Billing mode: monthly quota",
+    `Current cycle: ${cycle.startKey} to ${cycle.endKey}`,
+  ];
+
+  if (stale) {
+    details.push(`Manual values were entered for the cycle starting ${cfg.manualCycle}; they reset with the new cycle.`);
+  }
+
+  return {
+    used,
+    limit,
+    unit: "req",
+    cost,
+    details,
+  };
+}
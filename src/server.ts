@@ -0,0 +1,260 @@
+import { checkAlerts } from "./alerts";
+import { getAgentConfig, loadConfig } from "./config";
+import { parseDateRange } from "./export";
+import { closeHistory } from "./history";
+import { JSON_REPORT_VERSION, readFlag, toJsonReport } from "./headless";
+import { PROVIDERS } from "./providers";
+import { createInitialSnapshots, getSnapshot, hasFetchError, refreshSnapshot } from "./snapshots";
+import type { AgentKey, AgentSnapshot, AppConfig } from "./types";
+import { sendDueDigests } from "./webhooks";
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 9464;
+
+interface ServerState {
+  config: AppConfig;
+  snapshots: Record<AgentKey, AgentSnapshot>;
+  refreshing: boolean;
+  lastRefreshAt?: Date;
+}
+
+function enabledSnapshots(state: ServerState): AgentSnapshot[] {
+  return PROVIDERS.filter((provider) => getAgentConfig(state.config, provider.key).enabled).map((provider) => getSnapshot(state.snapshots, provider.key));
+}
+
+async function refreshAll(state: ServerState): Promise<void> {
+  if (state.refreshing) {
+    return;
+  }
+
+  state.refreshing = true;
+  try {
+    await Promise.all(PROVIDERS.map((provider) => refreshSnapshot(provider, getAgentConfig(state.config, provider.key), getSnapshot(state.snapshots, provider.key))));
+    state.lastRefreshAt = new Date();
+    checkAlerts(enabledSnapshots(state), state.config, state.lastRefreshAt);
+    void sendDueDigests(enabledSnapshots(state), state.config, state.lastRefreshAt);
+  } finally {
+    state.refreshing = false;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labels(values: Record<string, string>): string {
+  const entries = Object.entries(values);
+  if (entries.length === 0) {
+    return "";
+  }
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+    .join(",")}}`;
+}
+
+// Per-model series; whatever the breakdown doesn't explain is reported as model="other" so sums match the totals
+function modelSeries(snapshot: AgentSnapshot, pick: "used" | "cost"): Array<{ model: string; value: number }> {
+  const total = pick === "used" ? snapshot.used : (snapshot.cost ?? 0);
+  const series = snapshot.breakdown.map((item) => ({ model: item.label, value: item[pick] }));
+  const explained = series.reduce((sum, item) => sum + item.value, 0);
+  if (total - explained > 1e-9 || series.length === 0) {
+    series.push({ model: "other", value: Math.max(0, total - explained) });
+  }
+  return series;
+}
+
+export function renderMetrics(snapshots: AgentSnapshot[], config: AppConfig, lastRefreshAt?: Date): string {
+  const costLimitOf = (s: AgentSnapshot) => getAgentConfig(config, s.key).costLimit ?? s.costLimit;
+  const lines: string[] = [];
+  const gauge = (name: string, help: string, samples: Array<{ labels: Record<string, string>; value: number }>) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`);
+    for (const sample of samples) {
+      lines.push(`${name}${labels(sample.labels)} ${Number.isFinite(sample.value) ? sample.value : 0}`);
+    }
+  };
+
+  gauge(
+    "xdist_used",
+    "Usage in the current billing cycle, in the provider's unit.",
+    snapshots.flatMap((s) => modelSeries(s, "used").map((item) => ({ labels: { provider: s.key, model: item.model, unit: s.unit }, value: item.value }))),
+  );
+  gauge(
+    "xdist_cost_usd",
+    "Spend in the current billing cycle in USD.",
+    snapshots.flatMap((s) => modelSeries(s, "cost").map((item) => ({ labels: { provider: s.key, model: item.model }, value: item.value }))),
+  );
+  gauge(
+    "xdist_limit",
+    "Usage limit for the billing cycle (quota providers only).",
+    snapshots.filter((s) => typeof s.limit === "number").map((s) => ({ labels: { provider: s.key, unit: s.unit }, value: s.limit ?? 0 })),
+  );
+  gauge(
+    "xdist_cost_limit_usd",
+    "Spend cap for the billing cycle in USD.",
+    snapshots.filter((s) => typeof costLimitOf(s) === "number").map((s) => ({ labels: { provider: s.key }, value: costLimitOf(s) ?? 0 })),
+  );
+  gauge(
+    "xdist_progress_ratio",
+    "Dashboard bar fill, 0 to 1.",
+    snapshots.map((s) => ({ labels: { provider: s.key }, value: s.progress })),
+  );
+  gauge(
+    "xdist_up",
+    "1 if the provider's last fetch succeeded for every account.",
+    snapshots.map((s) => ({ labels: { provider: s.key }, value: s.configured && !hasFetchError(s) ? 1 : 0 })),
+  );
+  gauge(
+    "xdist_account_up",
+    "1 if the account's last fetch succeeded (multi-account providers only).",
+    snapshots.flatMap((s) => s.accounts.map((child) => ({ labels: { provider: s.key, account: child.account ?? "" }, value: child.configured && !child.error ? 1 : 0 }))),
+  );
+
+  if (lastRefreshAt) {
+    gauge("xdist_last_refresh_timestamp_seconds", "Unix time of the last completed refresh.", [
+      { labels: {}, value: Math.floor(lastRefreshAt.getTime() / 1000) },
+    ]);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Bodies only change when a refresh lands, so a hash of the body makes a stable validator
+function jsonResponse(request: Request, body: unknown, state: ServerState, status = 200): Response {
+  const text = `${JSON.stringify(body, null, 2)}\n`;
+  const etag = `W/"${Bun.hash(text).toString(16)}"`;
+  const headers: Record<string, string> = { "Content-Type": "application/json; charset=utf-8", ETag: etag, "Cache-Control": "no-cache" };
+  if (state.lastRefreshAt) {
+    headers["Last-Modified"] = state.lastRefreshAt.toUTCString();
+  }
+
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (status === 200 && ifNoneMatch && (ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => tag.trim() === etag))) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(text, { status, headers });
+}
+
+function apiError(request: Request, state: ServerState, status: number, message: string): Response {
+  return jsonResponse(request, { error: message }, state, status);
+}
+
+function buildSummary(state: ServerState) {
+  const snapshots = enabledSnapshots(state);
+  const costLimits = snapshots.map((s) => getAgentConfig(state.config, s.key).costLimit ?? s.costLimit).filter((limit): limit is number => typeof limit === "number");
+  const top = [...snapshots].sort((a, b) => b.progress - a.progress)[0];
+
+  return {
+    version: JSON_REPORT_VERSION,
+    generatedAt: (state.lastRefreshAt ?? new Date(0)).toISOString(),
+    providers: snapshots.length,
+    errors: snapshots.filter(hasFetchError).map((s) => s.key),
+    totalCost: snapshots.reduce((sum, s) => sum + (s.cost ?? 0), 0),
+    totalCostLimit: costLimits.length > 0 ? costLimits.reduce((sum, limit) => sum + limit, 0) : null,
+    highest: top ? { key: top.key, label: top.label, progress: top.progress } : null,
+  };
+}
+
+// GET /providers, /providers/:key, /providers/:key/daily?from=&to=, /summary
+function handleApi(request: Request, url: URL, state: ServerState): Response | undefined {
+  // generatedAt is the refresh time, not the request time, so the ETag holds between refreshes
+  const report = toJsonReport(enabledSnapshots(state), state.lastRefreshAt ?? new Date(0));
+
+  if (url.pathname === "/summary") {
+    return jsonResponse(request, buildSummary(state), state);
+  }
+
+  if (url.pathname === "/providers") {
+    const providers = report.providers.map(({ daily: _daily, ...rest }) => rest);
+    return jsonResponse(request, { ...report, providers }, state);
+  }
+
+  const match = /^\/providers\/([^/]+)(\/daily)?$/.exec(url.pathname);
+  if (!match) {
+    return undefined;
+  }
+
+  const key = decodeURIComponent(match[1] ?? "");
+  const provider = report.providers.find((item) => item.key === key);
+  if (!provider) {
+    return apiError(request, state, 404, `unknown or disabled provider: ${key}`);
+  }
+
+  if (!match[2]) {
+    const { daily: _daily, ...rest } = provider;
+    return jsonResponse(request, { version: report.version, generatedAt: report.generatedAt, provider: rest }, state);
+  }
+
+  const range = parseDateRange(`${url.searchParams.get("from") ?? ""}..${url.searchParams.get("to") ?? ""}`);
+  if (!range) {
+    return apiError(request, state, 400, "from/to must be real YYYY-MM-DD dates, from not after to");
+  }
+
+  const daily = provider.daily.filter((point) => (!range.from || point.day >= range.from) && (!range.to || point.day <= range.to));
+  return jsonResponse(
+    request,
+    { version: report.version, generatedAt: report.generatedAt, key: provider.key, unit: provider.unit, from: range.from ?? null, to: range.to ?? null, daily },
+    state,
+  );
+}
+
+export async function runServe(args: string[]): Promise<number> {
+  const metrics = args.includes("--metrics");
+  const config = loadConfig();
+  const hostname = readFlag(args, "host") ?? config.serveHost ?? DEFAULT_HOST;
+  const port = Number(readFlag(args, "port") ?? config.servePort ?? DEFAULT_PORT);
+  const interval = Number(readFlag(args, "interval") ?? config.refreshSeconds);
+  if (!Number.isInteger(port) || port < 0 || port > 65535 || !Number.isFinite(interval) || interval < 1) {
+    process.stderr.write("serve: --port must be 0-65535 and --interval at least 1 second\n");
+    return 2;
+  }
+
+  const state: ServerState = { config, snapshots: createInitialSnapshots(), refreshing: false };
+  const server = Bun.serve({
+    hostname,
+    port,
+    fetch(request) {
+      const url = new URL(request.url);
+      if (request.method !== "GET" && request.method !== "HEAD") {
+        return new Response("method not allowed\n", { status: 405, headers: { Allow: "GET, HEAD" } });
+      }
+
+      // zeros would read as real usage to a scraper, so nothing is served until the first refresh lands
+      if (!state.lastRefreshAt) {
+        return new Response(`${JSON.stringify({ error: "first refresh in progress" })}\n`, {
+          status: 503,
+          headers: { "Content-Type": "application/json; charset=utf-8", "Retry-After": "5" },
+        });
+      }
+
+      if (metrics && url.pathname === "/metrics") {
+        return new Response(renderMetrics(enabledSnapshots(state), state.config, state.lastRefreshAt), {
+          headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+        });
+      }
+
+      return handleApi(request, url, state) ?? apiError(request, state, 404, "not found");
+    },
+  });
+
+  const base = `http://${server.hostname}:${server.port}`;
+  process.stderr.write(`xdist serving ${base}/providers${metrics ? ` and ${base}/metrics` : ""} (refresh every ${interval}s)\n`);
+
+  // the port is bound before the first refresh, which can take a while with many providers
+  void refreshAll(state);
+  const timer = setInterval(() => {
+    void refreshAll(state);
+  }, interval * 1000);
+
+  return new Promise<number>((resolve) => {
+    const stop = () => {
+      clearInterval(timer);
+      void server.stop();
+      closeHistory();
+      resolve(0);
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+}
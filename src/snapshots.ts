@@ -0,0 +1,286 @@
+import { validateProviderOptions } from "./config";
+import { resolveBillingCycle } from "./cycle";
+import { loadDailyHistory, recordUsage } from "./history";
+import { computeLimitWindows, samplesFromDaily } from "./limits";
+import { getProvider, PROVIDERS } from "./providers";
+import type { AgentConfig, AgentKey, AgentProvider, AgentSnapshot, BillingMode, DailyUsagePoint, ProviderAccount, UsageBreakdownItem } from "./types";
+import { formatClock, formatMoney, formatNumber } from "./ui/format";
+
+function blankSnapshot(provider: AgentProvider, enabled: boolean, billingMode: BillingMode): AgentSnapshot {
+  return {
+    key: provider.key,
+    label: provider.label,
+    accent: provider.accent,
+    enabled,
+    configured: false,
+    billingMode,
+    loading: false,
+    used: 0,
+    limit: undefined,
+    unit: "req",
+    cost: 0,
+    progress: 0,
+    details: [provider.description],
+    breakdown: [],
+    daily: [],
+    windows: [],
+    accounts: [],
+    fetchedMonths: 0,
+    revealCursor: 0,
+    fetchedAt: undefined,
+  };
+}
+
+export function createInitialSnapshots(): Record<AgentKey, AgentSnapshot> {
+  return Object.fromEntries(
+    PROVIDERS.map((provider) => [provider.key, blankSnapshot(provider, provider.enabledByDefault ?? false, provider.defaultBillingMode)]),
+  );
+}
+
+// Like getAgentConfig: providers registered after the snapshots were created start out blank
+export function getSnapshot(snapshots: Record<AgentKey, AgentSnapshot>, key: AgentKey): AgentSnapshot {
+  const provider = getProvider(key);
+  return (snapshots[key] ??= blankSnapshot(provider, provider.enabledByDefault ?? false, provider.defaultBillingMode));
+}
+
+// API and local-log sources count different units, so their histories are kept apart; so are accounts
+function historyKey(provider: AgentProvider, cfg: AgentConfig, account?: string): string {
+  if (provider.historyKey) {
+    return provider.historyKey(cfg);
+  }
+
+  const sources = provider.sources ?? [];
+  const base = sources.length > 1 ? `${provider.key}:${cfg.source ?? sources[0]}` : provider.key;
+  return account ? `${base}@${account}` : base;
+}
+
+export function resolveAccountConfig(cfg: AgentConfig, account: ProviderAccount): AgentConfig {
+  const { name: _name, ...overrides } = account;
+  return {
+    ...cfg,
+    monthlyLimit: undefined,
+    costLimit: undefined,
+    dailyAllowance: undefined,
+    manualUsed: undefined,
+    manualCost: undefined,
+    manualCycle: undefined,
+    alerts: undefined,
+    accounts: undefined,
+    rollupAccounts: undefined,
+    ...overrides,
+    enabled: cfg.enabled && overrides.enabled !== false,
+  };
+}
+
+function sumDaily(series: DailyUsagePoint[][]): DailyUsagePoint[] {
+  const byDay = new Map<string, DailyUsagePoint>();
+  for (const point of series.flat()) {
+    const current = byDay.get(point.day) ?? { day: point.day, used: 0, cost: 0 };
+    current.used += point.used;
+    current.cost += point.cost;
+    byDay.set(point.day, current);
+  }
+  return normalizeDailyUsage([...byDay.values()]);
+}
+
+// Accounts that failed or lack credentials. Their usage is missing from the provider total, so the headless commands
+// report them even when other accounts came through.
+export function failedAccounts(snapshot: AgentSnapshot): Array<{ account: string; error: string }> {
+  return snapshot.accounts
+    .filter((child) => child.error || !child.configured)
+    .map((child) => ({ account: child.account ?? "", error: child.error ?? "missing credentials" }));
+}
+
+export function hasFetchError(snapshot: AgentSnapshot): boolean {
+  return Boolean(snapshot.error) || failedAccounts(snapshot).length > 0;
+}
+
+// Provider totals across accounts; the provider's own limits cap the total, otherwise account limits add up
+function rollUpAccounts(snapshot: AgentSnapshot, cfg: AgentConfig): void {
+  const children = snapshot.accounts;
+  const fetched = children.filter((child) => child.configured && !child.error);
+  const sumOf = (values: Array<number | undefined>) =>
+    values.length > 0 && values.every((value) => typeof value === "number") ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0) : undefined;
+
+  snapshot.loading = children.some((child) => child.loading);
+  snapshot.configured = children.some((child) => child.configured);
+  snapshot.error = fetched.length === 0 ? children.find((child) => child.error)?.error : undefined;
+  snapshot.used = fetched.reduce((sum, child) => sum + child.used, 0);
+  snapshot.cost = fetched.reduce((sum, child) => sum + (child.cost ?? 0), 0);
+  snapshot.unit = fetched[0]?.unit ?? snapshot.unit;
+  snapshot.limit = cfg.billingMode === "quota" ? (cfg.monthlyLimit ?? sumOf(fetched.map((child) => child.limit))) : undefined;
+  snapshot.costLimit = sumOf(fetched.map((child) => child.costLimit));
+  snapshot.progress = pickConfiguredProgress(cfg.billingMode, snapshot.used, snapshot.limit, snapshot.cost, cfg.costLimit ?? snapshot.costLimit);
+
+  const breakdown = new Map<string, UsageBreakdownItem>();
+  for (const item of fetched.flatMap((child) => child.breakdown)) {
+    const current = breakdown.get(item.label) ?? { label: item.label, used: 0, cost: 0 };
+    current.used += item.used;
+    current.cost += item.cost;
+    breakdown.set(item.label, current);
+  }
+  snapshot.breakdown = [...breakdown.values()].sort((a, b) => b.used - a.used);
+  snapshot.daily = sumDaily(children.map((child) => child.daily));
+  snapshot.windows = [];
+  snapshot.details = children.map((child) => {
+    if (child.error) {
+      return `${child.account}: ${child.error}`;
+    }
+    return child.configured ? `${child.account}: ${formatNumber(child.used)} ${child.unit}, ${formatMoney(child.cost)}` : `${child.account}: missing credentials`;
+  });
+  snapshot.fetchedAt = formatClock(new Date());
+}
+
+async function refreshAccounts(provider: AgentProvider, cfg: AgentConfig, snapshot: AgentSnapshot, onChange?: () => void): Promise<void> {
+  const accounts = (cfg.accounts ?? []).filter((account) => account.enabled !== false);
+  snapshot.accounts = accounts.map((account) => {
+    const existing = snapshot.accounts.find((child) => child.account === account.name);
+    return existing ?? { ...blankSnapshot(provider, true, account.billingMode ?? cfg.billingMode), account: account.name };
+  });
+
+  const update = () => {
+    rollUpAccounts(snapshot, cfg);
+    onChange?.();
+  };
+  await Promise.all(accounts.map((account, index) => {
+    const child = snapshot.accounts[index];
+    return child ? refreshSnapshot(provider, resolveAccountConfig(cfg, account), child, update) : Promise.resolve();
+  }));
+  rollUpAccounts(snapshot, cfg);
+}
+
+export function pickConfiguredProgress(
+  mode: BillingMode,
+  used: number,
+  limit: number | undefined,
+  cost?: number,
+  costLimit?: number,
+): number {
+  if (mode === "payg") {
+    // PAYG bars are full unless a spend cap is known, in which case they track spend
+    if (typeof costLimit === "number" && costLimit > 0) {
+      return clamp((cost ?? 0) / costLimit, 0, 1);
+    }
+    return 1;
+  }
+
+  // no limit to fill up against; the Max column shows ∞
+  if (typeof limit !== "number" || limit <= 0) {
+    return 0;
+  }
+
+  return clamp(used / limit, 0, 1);
+}
+
+export function normalizeDailyUsage(input: DailyUsagePoint[] | undefined): DailyUsagePoint[] {
+  return (input ?? [])
+    .filter((item) => Number.isFinite(item.used) && Number.isFinite(item.cost) && Number.isFinite(new Date(`${item.day}T00:00:00Z`).getTime()))
+    .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+}
+
+// Runs one provider's fetch and folds the result into its snapshot; onChange fires on streamed partial results
+export async function refreshSnapshot(provider: AgentProvider, cfg: AgentConfig, snapshot: AgentSnapshot, onChange?: () => void): Promise<void> {
+  snapshot.enabled = cfg.enabled;
+  snapshot.billingMode = cfg.billingMode;
+  snapshot.configured = provider.isConfigured(cfg);
+  snapshot.accent = cfg.accentColor?.trim() || provider.accent;
+  snapshot.label = snapshot.account ? `${provider.label} (${snapshot.account})` : provider.label;
+
+  if (cfg.enabled && (cfg.accounts?.length ?? 0) > 0) {
+    await refreshAccounts(provider, cfg, snapshot, onChange);
+    return;
+  }
+  snapshot.accounts = [];
+
+  if (!cfg.enabled) {
+    snapshot.loading = false;
+    snapshot.error = undefined;
+    snapshot.used = 0;
+    snapshot.limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
+    snapshot.cost = 0;
+    snapshot.costLimit = undefined;
+    snapshot.progress = 0;
+    snapshot.breakdown = [];
+    snapshot.daily = normalizeDailyUsage(undefined);
+    snapshot.windows = [];
+    snapshot.details = ["disabled"];
+    return;
+  }
+
+  // bad options explain a provider better than "missing credentials" would, so they surface as its error
+  const optionsError = validateProviderOptions(provider, cfg);
+  if (!snapshot.configured && !optionsError) {
+    snapshot.loading = false;
+    snapshot.error = undefined;
+    snapshot.used = 0;
+    snapshot.limit = cfg.billingMode === "quota" ? cfg.monthlyLimit : undefined;
+    snapshot.cost = 0;
+    snapshot.costLimit = undefined;
+    snapshot.progress = 0;
+    snapshot.breakdown = [];
+    snapshot.daily = normalizeDailyUsage(undefined);
+    snapshot.windows = [];
+    snapshot.details = ["missing credentials"];
+    return;
+  }
+
+  try {
+    if (optionsError) {
+      throw new Error(optionsError);
+    }
+
+    snapshot.loading = true;
+    snapshot.fetchedMonths = 0;
+    snapshot.revealCursor = 0;
+    const usage = await provider.fetchUsage(cfg, (partial) => {
+      if (partial.used !== undefined) snapshot.used = partial.used;
+      if (partial.cost !== undefined) snapshot.cost = partial.cost;
+      if (partial.breakdown !== undefined) snapshot.breakdown = partial.breakdown;
+      if (partial.daily !== undefined) snapshot.daily = normalizeDailyUsage(partial.daily);
+      if (partial.fetchedMonths !== undefined) snapshot.fetchedMonths = partial.fetchedMonths;
+      if (partial.costLimit !== undefined) snapshot.costLimit = partial.costLimit;
+      if (partial.limit !== undefined) snapshot.limit = partial.limit;
+      snapshot.progress = pickConfiguredProgress(cfg.billingMode, snapshot.used, snapshot.limit, snapshot.cost, cfg.costLimit ?? snapshot.costLimit);
+      onChange?.();
+    });
+    const limit = cfg.billingMode === "quota" ? usage.limit ?? cfg.monthlyLimit : undefined;
+
+    snapshot.loading = false;
+    snapshot.error = undefined;
+    snapshot.used = usage.used;
+    snapshot.limit = limit;
+    snapshot.unit = usage.unit;
+    snapshot.cost = usage.cost ?? 0;
+    snapshot.costLimit = usage.costLimit;
+    snapshot.progress = pickConfiguredProgress(cfg.billingMode, usage.used, limit, snapshot.cost, cfg.costLimit ?? usage.costLimit);
+    snapshot.breakdown = usage.breakdown ?? [];
+    // keep every refresh so the heatmap outlives each provider's own history window
+    recordUsage(historyKey(provider, cfg, snapshot.account), resolveBillingCycle(cfg).startKey, usage);
+    snapshot.daily = normalizeDailyUsage(loadDailyHistory(historyKey(provider, cfg, snapshot.account), usage.daily));
+    // provider-reported windows (e.g. session limits from an API) come first, then configured ones
+    snapshot.windows = [
+      ...(usage.windows ?? []),
+      ...computeLimitWindows(
+        cfg.limitWindows ?? [],
+        usage.samples ?? samplesFromDaily(usage.daily),
+        usage.samples !== undefined,
+        resolveBillingCycle(cfg),
+      ),
+    ];
+    snapshot.fetchedMonths = usage.fetchedMonths;
+    snapshot.details = usage.details;
+    snapshot.fetchedAt = formatClock(new Date());
+  } catch (error) {
+    snapshot.loading = false;
+    snapshot.error = error instanceof Error ? error.message : String(error);
+    snapshot.progress = 0;
+    snapshot.breakdown = [];
+    snapshot.daily = normalizeDailyUsage(loadDailyHistory(historyKey(provider, cfg, snapshot.account)));
+    snapshot.windows = [];
+    snapshot.details = ["fetch failed"];
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
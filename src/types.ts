@@ -1,17 +1,10 @@
-export type AgentKey =
-  | "github-copilot"
-  | "codex"
-  | "claude"
-  | "zai"
-  | "minimax"
-  | "vercel-ai"
-  | "ollama"
-  | "openrouter"
-  | "cursor"
-  | "antigravity"
-  | "opencode";
+import type { ZodType } from "zod";
+
+// Keys come from the provider registry in src/providers/index.ts
+export type AgentKey = string;
 
 export type BillingMode = "quota" | "payg";
+export type UsageSource = "api" | "local";
 
 export type BarStyle = "solid" | "shaded" | "ascii" | "dots" | "pipe" | "braille";
 export type HeatmapMetric = "req" | "cost";
@@ -24,17 +17,88 @@ export interface DailyUsagePoint {
   cost: number;
 }
 
+export interface UsageSample {
+  timestamp: string; // ISO 8601
+  used: number;
+  cost: number;
+}
+
+export type LimitWindowKind = "rolling" | "weekly" | "monthly";
+
+export interface LimitWindowConfig {
+  name: string;
+  kind: LimitWindowKind;
+  hours?: number; // rolling windows only (default 5)
+  limit?: number;
+  costLimit?: number;
+}
+
+export interface LimitWindowUsage {
+  name: string;
+  kind: LimitWindowKind;
+  used: number;
+  limit?: number;
+  cost: number;
+  costLimit?: number;
+  progress: number;
+  resetsAt?: string; // ISO 8601, undefined when no window is active
+  unsupported?: boolean; // a rolling window on a provider that only reports daily totals
+}
+
+export type AlertRuleKind = "usage" | "cost" | "spike";
+
+export interface AlertRule {
+  kind: AlertRuleKind;
+  // usage: percent of the monthly limit; cost: USD this cycle; spike: today's cost over the 7-day daily average
+  threshold: number;
+}
+
+export type AlertAction = "banner" | "notify" | "hook";
+
+export type WebhookFormat = "slack" | "discord" | "generic";
+
+export type WebhookEvent = "alert" | "digest";
+
+export interface WebhookConfig {
+  url: string;
+  format: WebhookFormat;
+  events?: WebhookEvent[]; // default: alert
+  digestHour?: number; // UTC hour the daily digest goes out (default 9)
+  retries?: number; // extra attempts after a failed post (default 3)
+}
+
 export interface AgentConfig {
   enabled: boolean;
   billingMode: BillingMode;
+  source?: UsageSource;
   accentColor?: string;
   token?: string;
   apiKey?: string;
   username?: string;
+  baseUrl?: string;
+  dataDir?: string;
+  lookbackDays?: number;
   monthlyLimit?: number;
   costLimit?: number;
   manualUsed?: number;
   manualCost?: number;
+  // cycle start (YYYY-MM-DD) the manual values were entered for; they read as 0 once a new cycle begins
+  manualCycle?: string;
+  cycleStartDay?: number; // 1-31, billing anniversary (default 1)
+  cycleTimeZone?: string; // IANA zone the cycle resets in (default UTC)
+  limitWindows?: LimitWindowConfig[];
+  alerts?: AlertRule[]; // default: 50/80/100% of the monthly limit for quota providers
+  dailyAllowance?: number; // per-day budget for the pace column, in the limit's unit (default: even split of what's left)
+  // named accounts tracked side by side; the provider's own limits then apply to their total
+  accounts?: ProviderAccount[];
+  rollupAccounts?: boolean; // show the total on the provider row (default true)
+  // provider-specific settings, validated by the provider's optionsSchema
+  options?: Record<string, unknown>;
+}
+
+// Overrides on top of the provider config; limits and manual values are per account and not inherited
+export interface ProviderAccount extends Partial<Omit<AgentConfig, "accounts" | "rollupAccounts">> {
+  name: string;
 }
 
 export interface AppConfig {
@@ -43,6 +107,7 @@ export interface AppConfig {
   barStyle: BarStyle;
   dashboardMetrics?: "req" | "cost" | "both";
   showModeColumn?: boolean;
+  showPaceColumn?: boolean;
   heatmapScope?: HeatmapScope;
   heatmapProvider?: AgentKey | "all";
   heatmapMetric?: HeatmapMetric;
@@ -56,6 +121,16 @@ export interface AppConfig {
   agents: Record<AgentKey, AgentConfig>;
   // optional UI preference persisted across runs
   detailPaneMode?: "sidebar" | "bottom" | "hidden";
+  // bind address for `xdist serve`; --host/--port take precedence
+  serveHost?: string;
+  servePort?: number;
+  alertActions?: AlertAction[]; // default: banner
+  alertNotifyCommand?: string; // default: notify-send
+  alertHook?: string; // shell command, gets the alert as JSON on stdin
+  webhooks?: WebhookConfig[];
+  // local repositories whose commits are shown on the heatmap; authors default to each repo's user.email
+  gitRepos?: string[];
+  gitAuthorEmails?: string[];
 }
 
 export interface UsageBreakdownItem {
@@ -69,23 +144,62 @@ export interface UsageResult {
   limit?: number;
   unit: string;
   cost?: number;
+  costLimit?: number;
   details: string[];
   breakdown?: UsageBreakdownItem[];
   daily?: DailyUsagePoint[];
+  // timestamped usage for rolling/weekly windows; falls back to daily points when absent
+  samples?: UsageSample[];
+  windows?: LimitWindowUsage[];
   fetchedMonths?: number;
 }
 
 export interface AgentProvider {
   key: AgentKey;
   label: string;
+  shortLabel?: string; // compact name for one-line status output
   accent: string;
   description: string;
   supportsLiveFetch: boolean;
   credentialName: "token" | "apiKey";
+  credentialInstructions?: string[];
+  // data sources this provider can read from; the first one is the default
+  sources?: UsageSource[];
   isConfigured: (cfg: AgentConfig) => boolean;
   fetchUsage: (cfg: AgentConfig, onUpdate?: (partial: Partial<UsageResult>) => void) => Promise<UsageResult>;
+  // what a fresh config gets for this provider
+  defaultBillingMode: BillingMode;
+  enabledByDefault?: boolean;
+  defaultConfig?: Partial<AgentConfig>;
+  // credentials picked up from the environment when the config leaves them unset
+  fromEnv?: (read: (name: string) => string | undefined) => ProviderEnvFields;
+  optionsSchema?: ZodType;
+  // key for the local history store (default: the provider key, per source and account)
+  historyKey?: (cfg: AgentConfig) => string;
+  // settings rows shown for this provider (default: all of them)
+  settingsFields?: ProviderSettingField[];
 }
 
+export type ProviderEnvFields = Partial<Pick<AgentConfig, "token" | "apiKey" | "username" | "baseUrl">>;
+
+export type ProviderSettingField =
+  | "enabled"
+  | "billingMode"
+  | "source"
+  | "credential"
+  | "accentColor"
+  | "username"
+  | "baseUrl"
+  | "dataDir"
+  | "lookbackDays"
+  | "monthlyLimit"
+  | "costLimit"
+  | "dailyAllowance"
+  | "cycleStartDay"
+  | "cycleTimeZone"
+  | "manualUsed"
+  | "manualCost";
+
 export type Screen = "dashboard" | "settings";
 
 export interface AgentSnapshot {
@@ -101,10 +215,14 @@ export interface AgentSnapshot {
   limit?: number;
   unit: string;
   cost?: number;
+  costLimit?: number;
   progress: number;
   details: string[];
   breakdown: UsageBreakdownItem[];
   daily: DailyUsagePoint[];
+  windows: LimitWindowUsage[];
+  account?: string; // set on per-account snapshots
+  accounts: AgentSnapshot[];
   fetchedMonths?: number;
   revealCursor?: number;
   fetchedAt?: string;
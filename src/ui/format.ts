@@ -1,4 +1,4 @@
-import type { BarStyle } from "../types";
+import type { AgentConfig, AgentSnapshot, BarStyle } from "../types";
 
 export function toBar(
   progress: number,
@@ -77,3 +77,77 @@ export function toBar(
 
   return { fill, empty, percent: `${percent}%` };
 }
+
+const GHOST_CHARS: Record<BarStyle, string> = {
+  solid: "▒",
+  shaded: "▒",
+  ascii: "~",
+  dots: "◌",
+  pipe: ":",
+  braille: "⠶",
+};
+
+// Bar with the stretch between current and projected fill drawn as a separate "ghost" segment
+export function toBarWithGhost(
+  progress: number,
+  projected: number,
+  width: number,
+  style: BarStyle,
+  decimals = 0
+): { fill: string; ghost: string; empty: string; percent: string } {
+  const bar = toBar(progress, width, style, decimals);
+  const fillCells = [...bar.fill].length;
+  const projectedCells = Math.round(Math.max(0, Math.min(1, projected)) * width);
+  const ghostCells = Math.max(0, projectedCells - fillCells);
+  if (ghostCells === 0) {
+    return { ...bar, ghost: "" };
+  }
+
+  const emptyChars = [...bar.empty];
+  return {
+    fill: bar.fill,
+    ghost: GHOST_CHARS[style].repeat(ghostCells),
+    empty: emptyChars.slice(ghostCells).join(""),
+    percent: bar.percent,
+  };
+}
+
+export function formatOrdinal(day: number): string {
+  const tens = day % 100;
+  const suffix = tens >= 11 && tens <= 13 ? "th" : (["th", "st", "nd", "rd"][day % 10] ?? "th");
+  return `${day}${suffix}`;
+}
+
+export function formatClock(date: Date): string {
+  return date.toLocaleTimeString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+}
+
+export function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(0) : value.toFixed(2);
+}
+
+export function formatMoney(value: number | undefined): string {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    return "$0";
+  }
+
+  const rounded = value < 10 ? value.toFixed(2) : value.toFixed(1);
+  return `$${rounded}`;
+}
+
+export function usageParts(snapshot: Pick<AgentSnapshot, "used" | "unit">, cfg: AgentConfig): { used: string; max: string } {
+  const used = snapshot.unit === "req" ? formatNumber(snapshot.used) : `${formatNumber(snapshot.used)}${snapshot.unit}`;
+  const max = cfg.billingMode === "quota" ? (typeof cfg.monthlyLimit === "number" ? formatNumber(cfg.monthlyLimit) : "∞") : "∞";
+  return { used, max };
+}
+
+export function costParts(snapshot: Pick<AgentSnapshot, "cost" | "costLimit">, cfg: AgentConfig): { current: string; max: string } {
+  const costLimit = cfg.costLimit ?? snapshot.costLimit;
+  const max = typeof costLimit === "number" ? formatMoney(costLimit) : "∞";
+  return { current: formatMoney(snapshot.cost), max };
+}
@@ -0,0 +1,222 @@
+import type { FiredAlert } from "./alerts";
+import { getAgentConfig, loadConfig } from "./config";
+import { formatStatusSegment } from "./headless";
+import { hasAlertFired, markAlertFired } from "./history";
+import type { AgentSnapshot, AppConfig, WebhookConfig, WebhookEvent } from "./types";
+
+const DEFAULT_DIGEST_HOUR = 9;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const REQUEST_TIMEOUT_MS = 10000;
+const DIGEST_FORMATS = {
+  quota: "{label}: {used}/{max} ({percent}), {cost}",
+  payg: "{label}: {cost} of {costMax}",
+} as const;
+
+// digests being delivered right now, so a refresh during the retries doesn't send a second copy
+const pendingDigests = new Set<string>();
+
+export interface WebhookMessage {
+  event: WebhookEvent;
+  title: string;
+  lines: string[];
+  alerts?: FiredAlert[];
+  providers?: Array<{ key: string; label: string; used: number; limit: number | null; unit: string; cost: number; error: string | null }>;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+function webhookEvents(hook: WebhookConfig): WebhookEvent[] {
+  return hook.events ?? ["alert"];
+}
+
+export function renderWebhookBody(format: WebhookConfig["format"], message: WebhookMessage, now = new Date()): unknown {
+  const text = [`*${message.title}*`, ...message.lines.map((line) => `• ${line}`)].join("\n");
+  switch (format) {
+    case "slack":
+      return { text };
+    case "discord":
+      // Discord uses **bold**; content is capped at 2000 characters
+      return { content: text.replace(/^\*(.*)\*$/m, "**$1**").slice(0, 2000) };
+    case "generic":
+      return {
+        version: 1,
+        event: message.event,
+        title: message.title,
+        sentAt: now.toISOString(),
+        ...(message.alerts ? { alerts: message.alerts } : {}),
+        ...(message.providers ? { providers: message.providers } : {}),
+      };
+  }
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(MAX_BACKOFF_MS, seconds * 1000);
+  }
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+// Network errors, 429 and 5xx are retried with exponential backoff; other 4xx answers won't improve on retry
+export async function postWebhook(hook: WebhookConfig, body: unknown, sleep = Bun.sleep): Promise<WebhookDelivery> {
+  const retries = hook.retries ?? DEFAULT_RETRIES;
+  let last: WebhookDelivery = { url: hook.url, ok: false, attempts: 0 };
+
+  for (let attempt = 0; attempt <= retries; attempt += 1) {
+    let retryAfter: string | null = null;
+    try {
+      const response = await fetch(hook.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "User-Agent": "xdist" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      last = { url: hook.url, ok: response.ok, attempts: attempt + 1, status: response.status };
+      if (response.ok) {
+        return last;
+      }
+      if (response.status !== 429 && response.status < 500) {
+        last.error = `HTTP ${response.status}`;
+        return last;
+      }
+      last.error = `HTTP ${response.status}`;
+      retryAfter = response.headers.get("Retry-After");
+    } catch (error) {
+      last = { url: hook.url, ok: false, attempts: attempt + 1, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (attempt < retries) {
+      await sleep(backoffDelay(attempt, retryAfter));
+    }
+  }
+
+  return last;
+}
+
+async function deliver(config: AppConfig, event: WebhookEvent, message: WebhookMessage, hooks?: WebhookConfig[]): Promise<WebhookDelivery[]> {
+  const targets = hooks ?? (config.webhooks ?? []).filter((hook) => webhookEvents(hook).includes(event));
+  return Promise.all(targets.map((hook) => postWebhook(hook, renderWebhookBody(hook.format, message))));
+}
+
+export function alertMessage(alerts: FiredAlert[]): WebhookMessage {
+  return {
+    event: "alert",
+    title: alerts.length === 1 ? "xdist alert" : `xdist: ${alerts.length} alerts`,
+    lines: alerts.map((alert) => alert.message),
+    alerts,
+  };
+}
+
+export function digestMessage(snapshots: AgentSnapshot[], config: AppConfig, now = new Date()): WebhookMessage {
+  return {
+    event: "digest",
+    title: `xdist daily digest ${now.toISOString().slice(0, 10)}`,
+    lines: snapshots.map((snapshot) => {
+      const cfg = getAgentConfig(config, snapshot.key);
+      return snapshot.error ? `${snapshot.label}: ${snapshot.error}` : formatStatusSegment(snapshot, cfg, DIGEST_FORMATS[cfg.billingMode]);
+    }),
+    providers: snapshots.map((snapshot) => ({
+      key: snapshot.key,
+      label: snapshot.label,
+      used: snapshot.used,
+      limit: snapshot.limit ?? null,
+      unit: snapshot.unit,
+      cost: snapshot.cost ?? 0,
+      error: snapshot.error ?? null,
+    })),
+  };
+}
+
+export async function sendAlertWebhooks(alerts: FiredAlert[], config: AppConfig): Promise<WebhookDelivery[]> {
+  return alerts.length > 0 ? deliver(config, "alert", alertMessage(alerts)) : [];
+}
+
+// Once per UTC day per webhook, on the first refresh after its digest hour; sent days share the alerts table
+export async function sendDueDigests(snapshots: AgentSnapshot[], config: AppConfig, now = new Date()): Promise<WebhookDelivery[]> {
+  const today = now.toISOString().slice(0, 10);
+  const due = (config.webhooks ?? []).filter(
+    (hook) =>
+      webhookEvents(hook).includes("digest") &&
+      now.getUTCHours() >= (hook.digestHour ?? DEFAULT_DIGEST_HOUR) &&
+      !pendingDigests.has(hook.url) &&
+      !hasAlertFired("webhook-digest", today, hook.url),
+  );
+  if (due.length === 0) {
+    return [];
+  }
+
+  // a digest is only marked sent once it arrives, so a failed one is tried again on the next refresh
+  for (const hook of due) {
+    pendingDigests.add(hook.url);
+  }
+  try {
+    const results = await deliver(config, "digest", digestMessage(snapshots, config, now), due);
+    for (const result of results) {
+      if (result.ok) {
+        markAlertFired("webhook-digest", today, result.url, now);
+      }
+    }
+    return results;
+  } finally {
+    for (const hook of due) {
+      pendingDigests.delete(hook.url);
+    }
+  }
+}
+
+// Webhook URLs embed their secret in the path (Slack, Discord), so only the host is printed
+export function redactWebhookUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname === "/" && !parsed.search ? parsed.origin : `${parsed.origin}/…`;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+// `xdist webhooks test [--digest]` posts a sample message to every configured webhook
+export async function runWebhooks(args: string[]): Promise<number> {
+  if (args[0] !== "test") {
+    process.stderr.write("usage: xdist webhooks test [--digest]\n");
+    return 2;
+  }
+
+  const config = loadConfig();
+  const hooks = config.webhooks ?? [];
+  if (hooks.length === 0) {
+    process.stderr.write("webhooks: none configured\n");
+    return 2;
+  }
+
+  const now = new Date();
+  const message: WebhookMessage = args.includes("--digest")
+    ? { event: "digest", title: `xdist daily digest ${now.toISOString().slice(0, 10)} (test)`, lines: ["Example Provider: 42/500 (8%), $1.23"], providers: [] }
+    : alertMessage([
+      {
+        provider: "github-copilot",
+        label: "Example Provider",
+        kind: "usage",
+        threshold: 80,
+        value: 80,
+        period: now.toISOString().slice(0, 10),
+        message: "Example Provider reached 80% of its limit (400/500 req) (test)",
+        firedAt: now.toISOString(),
+      },
+    ]);
+
+  const results = await deliver(config, message.event, message, hooks);
+  for (const result of results) {
+    const outcome = result.ok ? `ok (HTTP ${result.status})` : `failed: ${result.error ?? "unknown error"}`;
+    process.stdout.write(`${redactWebhookUrl(result.url)}  ${outcome} after ${result.attempts} attempt(s)\n`);
+  }
+
+  return results.every((result) => result.ok) ? 0 : 1;
+}
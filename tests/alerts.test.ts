@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { evaluateAlerts } from "../src/alerts";
+import { closeHistory, getHistoryPath, hasAlertFired, markAlertFired } from "../src/history";
+import { createInitialSnapshots, getSnapshot } from "../src/snapshots";
+import type { AgentConfig, AgentSnapshot } from "../src/types";
+
+const MARCH = new Date("2026-03-20T12:00:00Z");
+const APRIL = new Date("2026-04-02T12:00:00Z");
+const quota: AgentConfig = { enabled: true, billingMode: "quota", monthlyLimit: 100 };
+
+// The fired-this-run set lives for the whole process, so each test uses its own provider key
+function snapshot(key: string, used: number): AgentSnapshot {
+  return { ...getSnapshot(createInitialSnapshots(), "github-copilot"), key, enabled: true, configured: true, used };
+}
+
+describe("alert rules against a temp history db", () => {
+  const cwd = process.cwd();
+  const dirs: string[] = [];
+
+  // the history db lives in the working directory
+  const useFreshHistory = () => {
+    closeHistory();
+    const dir = mkdtempSync(join(tmpdir(), "xdist-alerts-"));
+    dirs.push(dir);
+    process.chdir(dir);
+  };
+
+  beforeAll(useFreshHistory);
+
+  afterAll(() => {
+    closeHistory();
+    process.chdir(cwd);
+    for (const dir of dirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("fires the default 50/80/100 quota thresholds once each", () => {
+    const thresholds = [40, 55, 60, 85, 101, 120].map((used) => evaluateAlerts(snapshot("defaults", used), quota, MARCH).map((alert) => alert.threshold));
+
+    expect(thresholds).toEqual([[], [50], [], [80], [100], []]);
+    expect(existsSync(getHistoryPath())).toBe(true);
+    expect(["usage:50", "usage:80", "usage:100"].map((rule) => hasAlertFired("defaults", "2026-03-01", rule))).toEqual([true, true, true]);
+  });
+
+  test("reports only the highest of several thresholds crossed at once", () => {
+    const fired = evaluateAlerts(snapshot("jump", 95), quota, MARCH);
+
+    expect(fired.map((alert) => alert.threshold)).toEqual([80]);
+    expect(evaluateAlerts(snapshot("jump", 96), quota, MARCH)).toEqual([]);
+  });
+
+  test("skips a threshold already in the persisted table", () => {
+    markAlertFired("persisted", "2026-03-01", "usage:50", MARCH);
+
+    expect(evaluateAlerts(snapshot("persisted", 60), quota, MARCH)).toEqual([]);
+    expect(evaluateAlerts(snapshot("persisted", 85), quota, MARCH).map((alert) => alert.threshold)).toEqual([80]);
+  });
+
+  test("remembers alerts for the rest of the run when the table is gone", () => {
+    expect(evaluateAlerts(snapshot("in-run", 60), quota, MARCH)).toHaveLength(1);
+
+    useFreshHistory();
+    expect(hasAlertFired("in-run", "2026-03-01", "usage:50")).toBe(false);
+    expect(evaluateAlerts(snapshot("in-run", 60), quota, MARCH)).toEqual([]);
+  });
+
+  test("fires again after the cycle resets", () => {
+    expect(evaluateAlerts(snapshot("reset", 85), quota, MARCH).map((alert) => alert.period)).toEqual(["2026-03-01"]);
+    expect(evaluateAlerts(snapshot("reset", 85), quota, MARCH)).toEqual([]);
+
+    const april = evaluateAlerts(snapshot("reset", 85), quota, APRIL);
+    expect(april.map((alert) => [alert.threshold, alert.period])).toEqual([[80, "2026-04-01"]]);
+  });
+
+  test("follows configured rules instead of the defaults", () => {
+    const cfg: AgentConfig = { ...quota, alerts: [{ kind: "usage", threshold: 90 }, { kind: "cost", threshold: 5 }] };
+
+    expect(evaluateAlerts({ ...snapshot("custom", 85), cost: 6 }, cfg, MARCH).map((alert) => [alert.kind, alert.threshold])).toEqual([["cost", 5]]);
+    expect(evaluateAlerts({ ...snapshot("custom", 92), cost: 6 }, cfg, MARCH).map((alert) => [alert.kind, alert.threshold])).toEqual([["usage", 90]]);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { fetchAnthropicUsage } from "../src/providers/anthropic";
+import type { AgentConfig, UsageResult } from "../src/types";
+
+const USAGE_PATH = "/v1/organizations/usage_report/messages";
+const COST_PATH = "/v1/organizations/cost_report";
+
+const usagePages: Record<string, unknown> = {
+  first: {
+    data: [
+      // before the cycle: kept for the trend only
+      { starting_at: "2026-02-25T00:00:00Z", results: [{ model: "claude-sonnet-4-5", uncached_input_tokens: 100, output_tokens: 50 }] },
+      {
+        starting_at: "2026-03-10T00:00:00Z",
+        results: [
+          {
+            model: "claude-sonnet-4-5",
+            uncached_input_tokens: 1000,
+            output_tokens: 200,
+            cache_read_input_tokens: 300,
+            cache_creation: { ephemeral_5m_input_tokens: 100, ephemeral_1h_input_tokens: 0 },
+          },
+        ],
+      },
+    ],
+    has_more: true,
+    next_page: "p2",
+  },
+  p2: {
+    data: [{ starting_at: "2026-03-11T00:00:00Z", results: [{ model: "claude-opus-4-1", uncached_input_tokens: 500, output_tokens: 100 }] }],
+    has_more: false,
+    next_page: null,
+  },
+};
+
+// amounts are decimal strings (or numbers) in cents
+const costPage = {
+  data: [
+    { starting_at: "2026-02-25T00:00:00Z", results: [{ model: "claude-sonnet-4-5", amount: "100", currency: "USD" }] },
+    { starting_at: "2026-03-10T00:00:00Z", results: [{ model: "claude-sonnet-4-5", description: "Claude Sonnet 4.5 Usage", amount: "1234.5", currency: "USD" }] },
+    { starting_at: "2026-03-11T00:00:00Z", results: [{ model: null, description: "claude-opus-4-1", amount: 250, currency: "USD" }] },
+  ],
+  has_more: false,
+};
+
+describe("Anthropic usage adapter against a local mock", () => {
+  const requests: URL[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    setSystemTime(new Date("2026-03-20T12:00:00Z"));
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const url = new URL(request.url);
+        requests.push(url);
+        const key = request.headers.get("x-api-key");
+        if (key !== "sk-ant-admin-test" && key !== "sk-ant-endless") {
+          return Response.json({ type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } }, { status: 401 });
+        }
+        if (url.pathname === USAGE_PATH) {
+          // a server that never stops paging
+          if (key === "sk-ant-endless") {
+            return Response.json({ data: [], has_more: true, next_page: `p${requests.length}` });
+          }
+          return Response.json(usagePages[url.searchParams.get("page") ?? "first"]);
+        }
+        if (url.pathname === COST_PATH) {
+          return Response.json(key === "sk-ant-endless" ? { data: [], has_more: false } : costPage);
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    void server.stop(true);
+  });
+
+  const config = (apiKey: string): AgentConfig => ({ enabled: true, billingMode: "payg", apiKey, baseUrl: `http://127.0.0.1:${server.port}/` });
+
+  test("pages through token usage and converts cent amounts to dollars", async () => {
+    const updates: Array<Partial<UsageResult>> = [];
+    const usage = await fetchAnthropicUsage(config("sk-ant-admin-test"), (partial) => updates.push(partial));
+
+    expect(usage.unit).toBe("tok");
+    expect(usage.used).toBe(2200);
+    // 1234.5¢ + 250¢; February's 100¢ is outside the cycle
+    expect(usage.cost).toBeCloseTo(14.845, 6);
+
+    const byModel = Object.fromEntries((usage.breakdown ?? []).map((item) => [item.label, item]));
+    expect(byModel["claude-sonnet-4-5"]?.used).toBe(1600);
+    expect(byModel["claude-sonnet-4-5"]?.cost).toBeCloseTo(12.345, 6);
+    expect(byModel["claude-opus-4-1"]?.used).toBe(600);
+    expect(byModel["claude-opus-4-1"]?.cost).toBeCloseTo(2.5, 6);
+
+    expect(usage.daily?.map((point) => [point.day, point.used])).toEqual([
+      ["2026-02-25", 150],
+      ["2026-03-10", 1600],
+      ["2026-03-11", 600],
+    ]);
+    expect(usage.daily?.[0]?.cost).toBeCloseTo(1, 6);
+
+    expect(updates.map((partial) => partial.used)).toEqual([1600, 2200, 2200]);
+
+    const usageCalls = requests.filter((url) => url.pathname === USAGE_PATH);
+    expect(usageCalls.map((url) => url.searchParams.get("page"))).toEqual([null, "p2"]);
+    expect(usageCalls[0]?.searchParams.get("limit")).toBe("31");
+    expect(usageCalls[0]?.searchParams.getAll("group_by[]")).toEqual(["model"]);
+    // 364 days of trend reach further back than the cycle start
+    expect(usageCalls[0]?.searchParams.get("starting_at")).toBe("2025-03-22T00:00:00.000Z");
+  });
+
+  test("stops after 24 pages when the API keeps paging", async () => {
+    requests.length = 0;
+    await fetchAnthropicUsage(config("sk-ant-endless"));
+
+    expect(requests.filter((url) => url.pathname === USAGE_PATH)).toHaveLength(24);
+    expect(requests.filter((url) => url.pathname === COST_PATH)).toHaveLength(1);
+  });
+
+  test("surfaces API errors", async () => {
+    await expect(fetchAnthropicUsage(config("sk-wrong"))).rejects.toThrow(`Anthropic API 401 for ${USAGE_PATH}`);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { CHECK_EXIT_CODES, evaluateSnapshot, overallStatus, type CheckStatus } from "../src/check";
+import { createInitialSnapshots, getSnapshot } from "../src/snapshots";
+import type { AgentConfig, AgentSnapshot } from "../src/types";
+
+// 15 of March's 31 days have passed, so a linear projection is 31/15 of the current value
+const NOW = new Date("2026-03-16T00:00:00Z");
+const THRESHOLDS = { warnPercent: 80, breachPercent: 100 };
+
+function snapshot(overrides: Partial<AgentSnapshot>): AgentSnapshot {
+  return { ...getSnapshot(createInitialSnapshots(), "github-copilot"), configured: true, ...overrides };
+}
+
+const quota: AgentConfig = { enabled: true, billingMode: "quota", monthlyLimit: 310 };
+const payg: AgentConfig = { enabled: true, billingMode: "payg", costLimit: 31 };
+
+describe("check exit codes", () => {
+  const cases: Array<{ name: string; snapshots: Array<[Partial<AgentSnapshot>, AgentConfig]>; status: CheckStatus; exit: number }> = [
+    { name: "usage and projection under the warn line", snapshots: [[{ used: 100 }, quota]], status: "ok", exit: 0 },
+    { name: "usage over the warn line", snapshots: [[{ used: 260 }, quota]], status: "warn", exit: 1 },
+    { name: "usage over the limit", snapshots: [[{ used: 320 }, quota]], status: "breach", exit: 2 },
+    { name: "cost over the limit", snapshots: [[{ cost: 40 }, payg]], status: "breach", exit: 2 },
+    { name: "a failed fetch", snapshots: [[{ error: "HTTP 500" }, quota]], status: "error", exit: 3 },
+    { name: "a failed account under an otherwise fine total", snapshots: [[{ used: 100, accounts: [snapshot({ account: "work", error: "HTTP 500" })] }, quota]], status: "error", exit: 3 },
+    { name: "a breach next to a failed fetch", snapshots: [[{ used: 320 }, quota], [{ error: "HTTP 500" }, quota]], status: "breach", exit: 2 },
+    { name: "no limits to check", snapshots: [[{ used: 1000 }, { enabled: true, billingMode: "payg" }]], status: "ok", exit: 0 },
+  ];
+
+  test.each(cases)("$name -> $status", ({ snapshots, status, exit }) => {
+    const results = snapshots.flatMap(([overrides, cfg]) => evaluateSnapshot(snapshot(overrides), cfg, THRESHOLDS, NOW));
+
+    expect(overallStatus(results)).toBe(status);
+    expect(CHECK_EXIT_CODES[overallStatus(results)]).toBe(exit);
+  });
+});
+
+describe("projections", () => {
+  const cases: Array<{ name: string; overrides: Partial<AgentSnapshot>; cfg: AgentConfig; check: string }> = [
+    { name: "usage", overrides: { used: 150 }, cfg: quota, check: "projected-usage" },
+    { name: "cost", overrides: { cost: 15 }, cfg: payg, check: "projected" },
+  ];
+
+  test.each(cases)("a $name projection past the limit warns but never breaches", ({ overrides, cfg, check }) => {
+    const results = evaluateSnapshot(snapshot(overrides), cfg, THRESHOLDS, NOW);
+    const projection = results.find((result) => result.check === check);
+
+    expect(projection?.ratio).toBeCloseTo(1, 6);
+    expect(projection?.status).toBe("warn");
+    expect(overallStatus(results)).toBe("warn");
+  });
+});
+
+describe("accounts", () => {
+  test("a failed account is reported by name next to the total", () => {
+    const results = evaluateSnapshot(snapshot({ used: 100, accounts: [snapshot({ account: "work", error: "HTTP 500" })] }), quota, THRESHOLDS, NOW);
+
+    expect(results[0]).toMatchObject({ label: "GitHub Copilot (work)", check: "fetch", status: "error", message: "HTTP 500" });
+    expect(results.map((result) => result.check)).toEqual(["fetch", "usage", "projected-usage"]);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { join } from "node:path";
+import { fetchClaudeCodeUsage } from "../src/providers/claude-code";
+import type { AgentConfig } from "../src/types";
+
+const PROJECTS = join(import.meta.dir, "fixtures", "claude-code", "projects");
+
+describe("Claude Code transcripts", () => {
+  beforeAll(() => setSystemTime(new Date("2026-03-20T12:00:00Z")));
+  afterAll(() => setSystemTime());
+
+  test("totals tokens and cost per model and per day", async () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "payg", source: "local", dataDir: PROJECTS };
+    const usage = await fetchClaudeCodeUsage(cfg);
+
+    // msg_1 appears in both files (resumed session) and is counted once; the synthetic, malformed and
+    // unterminated last lines are skipped
+    expect(usage.unit).toBe("tok");
+    expect(usage.used).toBe(14000);
+    expect(usage.cost).toBeCloseTo(0.5315, 6);
+
+    const byModel = Object.fromEntries((usage.breakdown ?? []).map((item) => [item.label, item]));
+    expect(Object.keys(byModel).sort()).toEqual(["claude-haiku-4-5", "claude-opus-4-1-20250805", "claude-sonnet-4-5-20250929"]);
+    expect(byModel["claude-sonnet-4-5-20250929"]?.used).toBe(13500);
+    // (1000 × $3 + 500 × $15 + 2000 × $3.75 + 10000 × $0.30) / 1M
+    expect(byModel["claude-sonnet-4-5-20250929"]?.cost).toBeCloseTo(0.021, 6);
+    expect(byModel["claude-opus-4-1-20250805"]?.cost).toBeCloseTo(0.0105, 6);
+    // costUSD in the transcript wins over the price table
+    expect(byModel["claude-haiku-4-5"]?.cost).toBeCloseTo(0.5, 6);
+
+    expect(usage.daily?.map((point) => [point.day, point.used])).toEqual([
+      ["2026-03-10", 13500],
+      ["2026-03-11", 500],
+    ]);
+    expect(usage.daily?.[1]?.cost).toBeCloseTo(0.5105, 6);
+  });
+
+  test("a configured directory that doesn't exist is an error, not zero usage", async () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "payg", source: "local", dataDir: join(PROJECTS, "missing") };
+    await expect(fetchClaudeCodeUsage(cfg)).rejects.toThrow("not found");
+  });
+});
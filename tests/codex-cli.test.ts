@@ -0,0 +1,33 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { join } from "node:path";
+import { fetchCodexCliUsage } from "../src/providers/codex-cli";
+import type { AgentConfig } from "../src/types";
+
+const SESSIONS = join(import.meta.dir, "fixtures", "codex", "sessions");
+
+describe("Codex CLI rollouts", () => {
+  beforeAll(() => setSystemTime(new Date("2026-03-20T12:00:00Z")));
+  afterAll(() => setSystemTime());
+
+  test("counts token growth per model and per day", async () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "payg", source: "local", dataDir: SESSIONS };
+    const usage = await fetchCodexCliUsage(cfg);
+
+    // the repeated running total adds nothing, the backwards total falls back to last_token_usage,
+    // and the malformed and unterminated lines are skipped
+    expect(usage.used).toBe(1910);
+
+    const byModel = Object.fromEntries((usage.breakdown ?? []).map((item) => [item.label, item]));
+    expect(byModel["gpt-5"]?.used).toBe(1200);
+    // (600 × $1.25 + 400 cached × $0.125 + 200 × $10) / 1M
+    expect(byModel["gpt-5"]?.cost).toBeCloseTo(0.0028, 8);
+    expect(byModel["gpt-5-mini"]?.used).toBe(710);
+    expect(byModel["gpt-5-mini"]?.cost).toBeCloseTo(0.00037, 8);
+    expect(usage.cost).toBeCloseTo(0.00317, 8);
+
+    expect(usage.daily?.map((point) => [point.day, point.used])).toEqual([
+      ["2026-03-12", 1200],
+      ["2026-03-13", 710],
+    ]);
+  });
+});
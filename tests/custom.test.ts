@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { fetchCustomUsage, selectNumber, selectPath, type CustomOptions } from "../src/providers/custom";
+import type { AgentConfig } from "../src/types";
+
+const payload = {
+  data: { total: "50", limit: 100 },
+  models: [
+    { "model name": "gpt-4o", requests: 10, cost: "1.5" },
+    { "model name": "sonnet", requests: 32, cost: 2 },
+  ],
+  days: [
+    { date: "2026-02-20", requests: 5, cost: 0.5 },
+    { date: "2026-03-10", requests: 12, cost: 1 },
+    // 2026-03-11 in Unix seconds
+    { date: 1773187200, requests: 30, cost: 2.5 },
+  ],
+};
+
+describe("custom selectors", () => {
+  test("follows dotted paths with an optional $ root", () => {
+    expect(selectPath(payload, "$.data.total")).toEqual(["50"]);
+    expect(selectPath(payload, "data.limit")).toEqual([100]);
+    expect(selectPath(payload, "$")).toEqual([payload]);
+  });
+
+  test("indexes arrays and reads quoted keys", () => {
+    expect(selectPath(payload, "models[1]['model name']")).toEqual(["sonnet"]);
+    expect(selectPath(payload, 'models[0]["model name"]')).toEqual(["gpt-4o"]);
+    expect(selectPath(payload, "models[5]")).toEqual([]);
+  });
+
+  test("sums numbers reached through a wildcard, strings included", () => {
+    expect(selectNumber(payload, "models[*].cost")).toBe(3.5);
+    expect(selectNumber(payload, "$.models.*.requests")).toBe(42);
+    expect(selectNumber(payload, "data.total")).toBe(50);
+    expect(selectNumber(payload, "data.missing")).toBeUndefined();
+    expect(selectNumber(payload, "models[*]['model name']")).toBeUndefined();
+  });
+
+  test("rejects malformed selectors with the position", () => {
+    expect(() => selectPath(payload, "models[")).toThrow('Invalid selector "models[" at position 6');
+    expect(() => selectPath(payload, "models[x]")).toThrow("Invalid selector");
+    expect(() => selectPath(payload, "data..total")).toThrow("at position 4");
+  });
+});
+
+describe("custom adapter against a local mock", () => {
+  const requests: Array<{ url: URL; headers: Headers }> = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    setSystemTime(new Date("2026-03-20T12:00:00Z"));
+    Bun.env.XDIST_TEST_TEAM = "core team";
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const url = new URL(request.url);
+        requests.push({ url, headers: new Headers(request.headers) });
+        if (url.pathname === "/usage") {
+          return Response.json(payload);
+        }
+        return new Response("gateway down", { status: 502 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    delete Bun.env.XDIST_TEST_TEAM;
+    void server.stop(true);
+  });
+
+  const config = (options: Partial<CustomOptions>, overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+    enabled: true,
+    billingMode: "quota",
+    apiKey: "key with&symbols",
+    options: {
+      url: `http://127.0.0.1:${server.port}/usage?key={apiKey}&from={cycleStart}&to={cycleEnd}`,
+      selectors: {},
+      ...options,
+    },
+    ...overrides,
+  });
+
+  test("fills placeholders, encoding them only in the URL", async () => {
+    await fetchCustomUsage(config({ headers: { Authorization: "Bearer {apiKey}", "X-Team": "{env:XDIST_TEST_TEAM}" } }));
+
+    const request = requests.at(-1);
+    expect(request?.url.search).toBe("?key=key%20with%26symbols&from=2026-03-01&to=2026-04-01");
+    expect(request?.headers.get("Authorization")).toBe("Bearer key with&symbols");
+    expect(request?.headers.get("X-Team")).toBe("core team");
+  });
+
+  test("fails on a missing variable or an unknown placeholder", async () => {
+    await expect(fetchCustomUsage(config({ headers: { "X-Team": "{env:XDIST_TEST_UNSET}" } }))).rejects.toThrow(
+      "Missing environment variable XDIST_TEST_UNSET",
+    );
+    await expect(fetchCustomUsage(config({ url: `http://127.0.0.1:${server.port}/usage?q={secret}` }))).rejects.toThrow("Unknown placeholder {secret}");
+    await expect(fetchCustomUsage(config({}, { apiKey: undefined }))).rejects.toThrow("Missing API key");
+  });
+
+  test("maps totals, limits, breakdown and daily points", async () => {
+    const usage = await fetchCustomUsage(
+      config({
+        unit: "calls",
+        selectors: {
+          used: "$.data.total",
+          limit: "data.limit",
+          breakdown: { items: "models[*]", label: "['model name']" },
+          daily: { items: "days[*]" },
+        },
+      }),
+    );
+
+    expect(usage).toMatchObject({ used: 50, limit: 100, unit: "calls" });
+    expect(usage.breakdown).toEqual([
+      { label: "sonnet", used: 32, cost: 2 },
+      { label: "gpt-4o", used: 10, cost: 1.5 },
+    ]);
+    expect(usage.daily).toEqual([
+      { day: "2026-02-20", used: 5, cost: 0.5 },
+      { day: "2026-03-10", used: 12, cost: 1 },
+      { day: "2026-03-11", used: 30, cost: 2.5 },
+    ]);
+  });
+
+  test("sums the cycle from the daily series without total selectors", async () => {
+    const usage = await fetchCustomUsage(config({ selectors: { daily: { items: "days[*]" } } }, { billingMode: "payg" }));
+
+    expect(usage.used).toBe(42);
+    expect(usage.cost).toBe(3.5);
+    expect(usage.limit).toBeUndefined();
+  });
+
+  test("surfaces HTTP errors with the response body", async () => {
+    await expect(fetchCustomUsage(config({ url: `http://127.0.0.1:${server.port}/broken` }))).rejects.toThrow("returned 502: gateway down");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { daysUntilReset, resolveBillingCycle, resolveWeek } from "../src/cycle";
+
+describe("resolveBillingCycle", () => {
+  test("defaults to the calendar month in UTC", () => {
+    const cycle = resolveBillingCycle({}, new Date("2026-03-20T12:00:00Z"));
+
+    expect(cycle.start.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    expect(cycle.end.toISOString()).toBe("2026-04-01T00:00:00.000Z");
+    expect([cycle.startKey, cycle.endKey]).toEqual(["2026-03-01", "2026-04-01"]);
+  });
+
+  test("falls back to the last day of a short month", () => {
+    const january = resolveBillingCycle({ cycleStartDay: 31 }, new Date("2026-02-15T12:00:00Z"));
+    expect([january.startKey, january.endKey]).toEqual(["2026-01-31", "2026-02-28"]);
+
+    const february = resolveBillingCycle({ cycleStartDay: 31 }, new Date("2026-03-01T12:00:00Z"));
+    expect([february.startKey, february.endKey]).toEqual(["2026-02-28", "2026-03-31"]);
+  });
+
+  test("starts and ends at local midnight across a DST change", () => {
+    const cycle = resolveBillingCycle({ cycleTimeZone: "America/New_York" }, new Date("2026-03-20T12:00:00Z"));
+
+    // EST at the start, EDT at the end
+    expect(cycle.start.toISOString()).toBe("2026-03-01T05:00:00.000Z");
+    expect(cycle.end.toISOString()).toBe("2026-04-01T04:00:00.000Z");
+    expect(daysUntilReset(cycle, new Date("2026-03-20T12:00:00Z"))).toBe(12);
+  });
+
+  test("uses the local date in a half-hour offset zone", () => {
+    // 01:30 on the 15th in Kolkata, still the 14th in UTC
+    const now = new Date("2026-03-14T20:00:00Z");
+    const cycle = resolveBillingCycle({ cycleStartDay: 15, cycleTimeZone: "Asia/Kolkata" }, now);
+
+    expect(cycle.start.toISOString()).toBe("2026-03-14T18:30:00.000Z");
+    expect(cycle.end.toISOString()).toBe("2026-04-14T18:30:00.000Z");
+    expect([cycle.startKey, cycle.endKey]).toEqual(["2026-03-15", "2026-04-15"]);
+    expect(resolveBillingCycle({ cycleStartDay: 15 }, now).startKey).toBe("2026-02-15");
+  });
+
+  test("ignores an unknown time zone", () => {
+    const cycle = resolveBillingCycle({ cycleTimeZone: "Mars/Olympus" }, new Date("2026-03-20T12:00:00Z"));
+    expect(cycle.start.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
+
+describe("daysUntilReset", () => {
+  const cycle = resolveBillingCycle({}, new Date("2026-03-20T12:00:00Z"));
+
+  test("counts part of a day as a whole day", () => {
+    expect(daysUntilReset(cycle, new Date("2026-03-31T23:00:00Z"))).toBe(1);
+    expect(daysUntilReset(cycle, new Date("2026-03-01T00:00:00Z"))).toBe(31);
+  });
+
+  test("never goes negative once the cycle has ended", () => {
+    expect(daysUntilReset(cycle, new Date("2026-04-01T00:00:00Z"))).toBe(0);
+    expect(daysUntilReset(cycle, new Date("2026-04-03T00:00:00Z"))).toBe(0);
+  });
+});
+
+describe("resolveWeek", () => {
+  // Sunday evening in UTC, already Monday morning in Tokyo
+  const now = new Date("2026-03-22T20:00:00Z");
+
+  test("starts on Monday in UTC", () => {
+    const week = resolveWeek("UTC", now);
+    expect([week.start.toISOString(), week.end.toISOString()]).toEqual(["2026-03-16T00:00:00.000Z", "2026-03-23T00:00:00.000Z"]);
+  });
+
+  test("starts on the local Monday in the cycle's time zone", () => {
+    const week = resolveWeek("Asia/Tokyo", now);
+    expect([week.start.toISOString(), week.end.toISOString()]).toEqual(["2026-03-22T15:00:00.000Z", "2026-03-29T15:00:00.000Z"]);
+    expect([week.startKey, week.endKey]).toEqual(["2026-03-23", "2026-03-30"]);
+  });
+
+  test("crosses a month boundary", () => {
+    const week = resolveWeek("UTC", new Date("2026-04-01T12:00:00Z"));
+    expect([week.startKey, week.endKey]).toEqual(["2026-03-30", "2026-04-06"]);
+  });
+});
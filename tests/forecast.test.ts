@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { computePace } from "../src/forecast";
+import { createInitialSnapshots, getSnapshot } from "../src/snapshots";
+import type { AgentConfig, AgentSnapshot } from "../src/types";
+
+// 20:00 UTC on the 20th is already 05:00 on the 21st in Tokyo
+const NOW = new Date("2026-03-20T20:00:00Z");
+
+const snapshot: AgentSnapshot = {
+  ...getSnapshot(createInitialSnapshots(), "github-copilot"),
+  configured: true,
+  billingMode: "quota",
+  used: 100,
+  limit: 310,
+  daily: [
+    { day: "2026-03-20", used: 30, cost: 0 },
+    { day: "2026-03-21", used: 5, cost: 0 },
+  ],
+};
+
+describe("computePace", () => {
+  test("takes today from UTC by default", () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "quota", monthlyLimit: 310 };
+    const pace = computePace(snapshot, cfg, NOW);
+
+    expect(pace?.today).toBe(30);
+    // 12 days left including today: (310 - 70) / 12
+    expect(pace?.allowance).toBeCloseTo(20, 6);
+  });
+
+  test("takes today from the cycle's time zone", () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "quota", monthlyLimit: 310, cycleTimeZone: "Asia/Tokyo" };
+    const pace = computePace(snapshot, cfg, NOW);
+
+    expect(pace?.today).toBe(5);
+    // 11 days left including today: (310 - 95) / 11
+    expect(pace?.allowance).toBeCloseTo(215 / 11, 6);
+  });
+
+  test("uses a configured daily allowance as is", () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "quota", monthlyLimit: 310, dailyAllowance: 10 };
+    expect(computePace(snapshot, cfg, NOW)).toMatchObject({ metric: "used", today: 30, allowance: 10, ratio: 3 });
+  });
+});
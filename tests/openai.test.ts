@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { fetchOpenAIUsage } from "../src/providers/openai";
+import type { AgentConfig, UsageResult } from "../src/types";
+
+// 2026-03-10 and 2026-03-11 00:00 UTC
+const DAY_1 = 1773100800;
+const DAY_2 = 1773187200;
+
+const completionPages: Record<string, unknown> = {
+  first: {
+    data: [{ start_time: DAY_1, results: [{ model: "gpt-4o-2024-08-06", num_model_requests: 10, input_tokens: 1000, output_tokens: 200 }] }],
+    has_more: true,
+    next_page: "p2",
+  },
+  p2: {
+    data: [
+      {
+        start_time: DAY_2,
+        results: [
+          { model: "gpt-4o-2024-08-06", num_model_requests: 5, input_tokens: 500, output_tokens: 100 },
+          { model: "o3", num_model_requests: 2, input_tokens: 300, output_tokens: 50 },
+        ],
+      },
+    ],
+    has_more: false,
+  },
+};
+
+const costsPage = {
+  data: [
+    { start_time: DAY_1, results: [{ line_item: "gpt-4o-2024-08-06, input", amount: { value: 1.25, currency: "usd" } }] },
+    { start_time: DAY_2, results: [{ line_item: "o3, output", amount: { value: 0.75, currency: "usd" } }] },
+  ],
+  has_more: false,
+};
+
+describe("OpenAI usage adapter against a local mock", () => {
+  const requests: URL[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    setSystemTime(new Date("2026-03-20T12:00:00Z"));
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const url = new URL(request.url);
+        requests.push(url);
+        if (request.headers.get("Authorization") !== "Bearer sk-admin-test") {
+          return Response.json({ error: { message: "invalid key" } }, { status: 401 });
+        }
+        if (url.pathname === "/v1/organization/usage/completions") {
+          return Response.json(completionPages[url.searchParams.get("page") ?? "first"]);
+        }
+        if (url.pathname === "/v1/organization/costs") {
+          return Response.json(costsPage);
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    void server.stop(true);
+  });
+
+  const config = (apiKey: string): AgentConfig => ({ enabled: true, billingMode: "payg", apiKey, baseUrl: `http://127.0.0.1:${server.port}/` });
+
+  test("pages through usage and costs into totals, breakdown and daily points", async () => {
+    const updates: Array<Partial<UsageResult>> = [];
+    const usage = await fetchOpenAIUsage(config("sk-admin-test"), (partial) => updates.push(partial));
+
+    expect(usage.used).toBe(17);
+    expect(usage.cost).toBeCloseTo(2, 6);
+    expect(usage.breakdown).toEqual([
+      { label: "gpt-4o-2024-08-06", used: 15, cost: 1.25 },
+      { label: "o3", used: 2, cost: 0.75 },
+    ]);
+    expect(usage.daily).toEqual([
+      { day: "2026-03-10", used: 10, cost: 1.25 },
+      { day: "2026-03-11", used: 7, cost: 0.75 },
+    ]);
+
+    // one partial result per page, growing as pages arrive
+    expect(updates.map((partial) => partial.used)).toEqual([10, 17, 17]);
+
+    const usageCalls = requests.filter((url) => url.pathname.endsWith("/completions"));
+    expect(usageCalls.map((url) => url.searchParams.get("page"))).toEqual([null, "p2"]);
+    expect(usageCalls[0]?.searchParams.get("group_by")).toBe("model");
+    expect(usageCalls[0]?.searchParams.get("bucket_width")).toBe("1d");
+  });
+
+  test("surfaces API errors", async () => {
+    await expect(fetchOpenAIUsage(config("sk-wrong"))).rejects.toThrow("OpenAI API 401");
+  });
+});
@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { join } from "node:path";
+import { fetchOpenCodeUsage } from "../src/providers/opencode";
+import { findPrice } from "../src/providers/pricing";
+import type { AgentConfig } from "../src/types";
+
+const MESSAGES = join(import.meta.dir, "fixtures", "opencode", "message");
+
+describe("OpenCode message storage", () => {
+  beforeAll(() => setSystemTime(new Date("2026-03-20T12:00:00Z")));
+  afterAll(() => setSystemTime());
+
+  test("reads current and legacy messages per model and per day", async () => {
+    const cfg: AgentConfig = { enabled: true, billingMode: "payg", dataDir: MESSAGES };
+    const usage = await fetchOpenCodeUsage(cfg);
+
+    // the user message and the truncated file are skipped
+    expect(usage.used).toBe(3750);
+
+    const byModel = Object.fromEntries((usage.breakdown ?? []).map((item) => [item.label, item]));
+    // reasoning tokens count as output
+    expect(byModel["anthropic/claude-sonnet-4-5"]?.used).toBe(1650);
+    expect(byModel["anthropic/claude-sonnet-4-5"]?.cost).toBeCloseTo(0.12, 6);
+    // no recorded cost: estimated from the price table, (2000 × $1.25 + 100 × $10) / 1M
+    expect(byModel["openai/gpt-5"]?.used).toBe(2100);
+    expect(byModel["openai/gpt-5"]?.cost).toBeCloseTo(0.0035, 8);
+
+    expect(usage.daily?.map((point) => [point.day, point.used])).toEqual([
+      ["2026-03-14", 1650],
+      ["2026-03-15", 2100],
+    ]);
+    expect(usage.details).toContain("Upstream providers: anthropic $0.12, openai $0.00");
+  });
+
+  test("prices provider-prefixed model ids like the bare model", () => {
+    for (const model of ["o3", "o4-mini", "claude-sonnet-4-5"]) {
+      expect(findPrice(`provider/${model}`)).toEqual(findPrice(model));
+    }
+    expect(findPrice("openai/o3")?.input).toBe(2);
+    expect(findPrice("openai/o4-mini")?.input).toBe(1.1);
+  });
+});
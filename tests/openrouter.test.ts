@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import { fetchOpenRouterUsage } from "../src/providers/openrouter";
+import type { AgentConfig } from "../src/types";
+
+const keyInfo = {
+  data: { label: "ci", usage: 80, usage_daily: 1, usage_weekly: 6, usage_monthly: 12, limit: 50, limit_remaining: 38, is_free_tier: false },
+};
+
+// Activity covers completed UTC days only, so 2026-03-20 (today) never appears
+const activity = {
+  data: [
+    { date: "2026-03-14", model: "openai/gpt-4o", usage: 1, requests: 10 },
+    { date: "2026-03-16", model: "anthropic/claude-sonnet-4.5", usage: 2.5, byok_usage_inference: 0.5, requests: 20 },
+    { date: "2026-03-19", model: "openai/gpt-4o", usage: 1.25, requests: 5 },
+  ],
+};
+
+describe("OpenRouter adapter against a local mock", () => {
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    setSystemTime(new Date("2026-03-20T12:00:00Z"));
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const url = new URL(request.url);
+        const auth = request.headers.get("Authorization");
+        if (auth !== "Bearer sk-or-provisioning" && auth !== "Bearer sk-or-regular" && auth !== "Bearer sk-or-unlimited") {
+          return Response.json({ error: { message: "No auth credentials found" } }, { status: 401 });
+        }
+        if (url.pathname === "/v1/key") {
+          return Response.json(auth === "Bearer sk-or-unlimited" ? { data: { ...keyInfo.data, limit: null } } : keyInfo);
+        }
+        if (url.pathname === "/v1/credits") {
+          return Response.json({ data: { total_credits: 100, total_usage: 40 } });
+        }
+        if (url.pathname === "/v1/activity") {
+          return auth === "Bearer sk-or-provisioning" ? Response.json(activity) : Response.json({ error: { message: "Only provisioning keys" } }, { status: 403 });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    void server.stop(true);
+  });
+
+  const config = (apiKey: string, overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+    enabled: true,
+    billingMode: "payg",
+    apiKey,
+    baseUrl: `http://127.0.0.1:${server.port}`,
+    ...overrides,
+  });
+
+  test("takes the cost limit from the key's credit limit", async () => {
+    const usage = await fetchOpenRouterUsage(config("sk-or-provisioning"));
+
+    expect(usage.costLimit).toBe(50);
+    expect(usage.details).toContain("Key limit: $50.00 ($38.00 remaining)");
+    expect(usage.details).toContain("Credits: $60.00 remaining of $100.00");
+  });
+
+  test("leaves the cost limit unset for a key without one", async () => {
+    const usage = await fetchOpenRouterUsage(config("sk-or-unlimited"));
+
+    expect(usage.costLimit).toBeUndefined();
+    expect(usage.details).toContain("Key limit: none");
+  });
+
+  test("uses the key's monthly usage for a calendar cycle", async () => {
+    const usage = await fetchOpenRouterUsage(config("sk-or-provisioning"));
+
+    expect(usage.cost).toBe(12);
+    expect(usage.used).toBe(35);
+    expect(usage.daily?.map((point) => point.day)).toEqual(["2026-03-14", "2026-03-16", "2026-03-19"]);
+  });
+
+  test("sums a custom cycle from activity, which stops at yesterday", async () => {
+    const usage = await fetchOpenRouterUsage(config("sk-or-provisioning", { cycleStartDay: 15 }));
+
+    // 2026-03-14 is before the cycle; BYOK inference counts toward spend
+    expect(usage.cost).toBeCloseTo(4.25, 6);
+    expect(usage.used).toBe(25);
+    expect(usage.breakdown).toEqual([
+      { label: "anthropic/claude-sonnet-4.5", used: 20, cost: 3 },
+      { label: "openai/gpt-4o", used: 5, cost: 1.25 },
+    ]);
+    expect(usage.daily?.some((point) => point.day === "2026-03-20")).toBe(false);
+  });
+
+  test("falls back to key usage when activity needs a provisioning key", async () => {
+    const usage = await fetchOpenRouterUsage(config("sk-or-regular", { cycleStartDay: 15 }));
+
+    expect(usage.cost).toBe(12);
+    expect(usage.used).toBe(0);
+    expect(usage.details?.some((line) => line.startsWith("Activity: OpenRouter API 403"))).toBe(true);
+  });
+
+  test("surfaces API errors", async () => {
+    await expect(fetchOpenRouterUsage(config("sk-wrong"))).rejects.toThrow("OpenRouter API 401 for /v1/key");
+  });
+});
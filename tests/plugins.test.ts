@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getPluginErrors, loadPlugins } from "../src/plugins";
+import { PROVIDERS } from "../src/providers";
+
+// Only malformed plugins here: a valid one would stay registered for the rest of the test run
+const plugins: Record<string, string> = {
+  "no-export.ts": "export const nothing = 1;\n",
+  "fields-string.ts": `export const provider = { key: "bad-fields", label: "Bad", fetchUsage: async () => ({ used: 0, details: [] }), settingsFields: "costLimit" };\n`,
+  "fields-unknown.ts": `export const provider = { key: "bad-field", label: "Bad", fetchUsage: async () => ({ used: 0, details: [] }), settingsFields: ["enabled", "apiSecret"] };\n`,
+  "sources.ts": `export const provider = { key: "bad-sources", label: "Bad", fetchUsage: async () => ({ used: 0, details: [] }), sources: ["cloud"] };\n`,
+  "billing.ts": `export const provider = { key: "bad-billing", label: "Bad", fetchUsage: async () => ({ used: 0, details: [] }), defaultBillingMode: "monthly" };\n`,
+};
+
+describe("plugin loading", () => {
+  let dir: string;
+  let loaded: string[];
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "xdist-plugins-"));
+    for (const [file, source] of Object.entries(plugins)) {
+      writeFileSync(join(dir, file), source);
+    }
+    loaded = await loadPlugins(dir);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("skips malformed plugins without registering them", () => {
+    expect(loaded).toEqual([]);
+    expect(PROVIDERS.some((provider) => provider.key.startsWith("bad-"))).toBe(false);
+  });
+
+  test("reports each malformed plugin with the offending field", () => {
+    const errors = getPluginErrors();
+
+    expect(errors).toContain("no-export.ts: expected a `provider` export");
+    expect(errors.find((error) => error.startsWith("fields-string.ts:"))).toStartWith("fields-string.ts: invalid provider.settingsFields:");
+    expect(errors.find((error) => error.startsWith("fields-unknown.ts:"))).toStartWith("fields-unknown.ts: invalid provider.settingsFields.1:");
+    expect(errors.find((error) => error.startsWith("sources.ts:"))).toStartWith("sources.ts: invalid provider.sources.0:");
+    expect(errors.find((error) => error.startsWith("billing.ts:"))).toStartWith("billing.ts: invalid provider.defaultBillingMode:");
+  });
+});
@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { postWebhook, redactWebhookUrl, renderWebhookBody } from "../src/webhooks";
+import type { WebhookConfig } from "../src/types";
+
+// A stand-in that answers each path from a script, one status per attempt
+const scripts: Record<string, Array<{ status: number; headers?: Record<string, string> }>> = {
+  "/flaky": [{ status: 503 }, { status: 502 }, { status: 200 }],
+  "/throttled": [{ status: 429, headers: { "Retry-After": "5" } }, { status: 204 }],
+  "/rejected": [{ status: 400 }, { status: 200 }],
+  "/down": [{ status: 500 }, { status: 500 }, { status: 500 }],
+};
+
+function recordSleeps() {
+  const sleeps: number[] = [];
+  return { sleeps, sleep: async (ms: number | Date) => void sleeps.push(Number(ms)) };
+}
+
+describe("webhook delivery against a local stand-in", () => {
+  const received: Array<{ path: string; body: unknown }> = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const path = new URL(request.url).pathname;
+        received.push({ path, body: await request.json() });
+        const step = scripts[path]?.shift() ?? { status: 404 };
+        return new Response(null, { status: step.status, headers: step.headers });
+      },
+    });
+  });
+
+  afterAll(() => {
+    void server.stop(true);
+  });
+
+  const hook = (path: string, retries?: number): WebhookConfig => ({ url: `http://127.0.0.1:${server.port}${path}`, format: "slack", retries });
+
+  test("retries 5xx with exponential backoff until it succeeds", async () => {
+    const { sleeps, sleep } = recordSleeps();
+    const result = await postWebhook(hook("/flaky"), { text: "hi" }, sleep);
+
+    expect(result).toMatchObject({ ok: true, attempts: 3, status: 200 });
+    expect(sleeps).toEqual([1000, 2000]);
+    expect(received.filter((item) => item.path === "/flaky").map((item) => item.body)).toEqual([{ text: "hi" }, { text: "hi" }, { text: "hi" }]);
+  });
+
+  test("honours Retry-After on 429", async () => {
+    const { sleeps, sleep } = recordSleeps();
+    const result = await postWebhook(hook("/throttled"), {}, sleep);
+
+    expect(result).toMatchObject({ ok: true, attempts: 2, status: 204 });
+    expect(sleeps).toEqual([5000]);
+  });
+
+  test("does not retry other 4xx answers", async () => {
+    const { sleeps, sleep } = recordSleeps();
+    const result = await postWebhook(hook("/rejected"), {}, sleep);
+
+    expect(result).toMatchObject({ ok: false, attempts: 1, status: 400, error: "HTTP 400" });
+    expect(sleeps).toEqual([]);
+  });
+
+  test("gives up after the configured retries", async () => {
+    const { sleeps, sleep } = recordSleeps();
+    const result = await postWebhook(hook("/down", 2), {}, sleep);
+
+    expect(result).toMatchObject({ ok: false, attempts: 3, status: 500 });
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  test("renders the same message for each format", () => {
+    const message = { event: "alert" as const, title: "xdist alert", lines: ["Codex reached 80% of its limit"] };
+
+    expect(renderWebhookBody("slack", message)).toEqual({ text: "*xdist alert*\n• Codex reached 80% of its limit" });
+    expect(renderWebhookBody("discord", message)).toEqual({ content: "**xdist alert**\n• Codex reached 80% of its limit" });
+    expect(renderWebhookBody("generic", message, new Date("2026-03-20T12:00:00Z"))).toEqual({
+      version: 1,
+      event: "alert",
+      title: "xdist alert",
+      sentAt: "2026-03-20T12:00:00.000Z",
+    });
+  });
+
+  test("prints webhook URLs without the secret path", () => {
+    expect(redactWebhookUrl("https://hooks.slack.com/services/T000/B000/XXXX")).toBe("https://hooks.slack.com/…");
+    expect(redactWebhookUrl("http://127.0.0.1:8080/")).toBe("http://127.0.0.1:8080");
+  });
+});